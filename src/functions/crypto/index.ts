@@ -15,3 +15,4 @@ export { crypto };
 
 export * from "./encryption";
 export * from "./hash";
+export * from "./signing";
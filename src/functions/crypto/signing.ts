@@ -0,0 +1,81 @@
+import { crypto } from ".";
+
+const SIGNING_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" };
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: { name: "SHA-256" } };
+
+/**
+ * Generates an ECDSA P-256 key pair for signing requests, unlike `generateKeyPair` which creates an ECDH pair for encryption.
+ *
+ * @returns The base64 encoded `spki` public key and `pkcs8` private key.
+ */
+export async function generateSigningKeyPair() {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, [
+    "sign",
+    "verify",
+  ]);
+
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+
+  return {
+    publicKey: Buffer.from(publicKey).toString("base64"),
+    privateKey: Buffer.from(privateKey).toString("base64"),
+  };
+}
+
+export async function signWithPrivateKey({
+  privateKey,
+  data,
+}: {
+  privateKey: string;
+  data: string;
+}) {
+  const _privateKey = await crypto.subtle.importKey(
+    "pkcs8",
+    Buffer.from(privateKey, "base64"),
+    SIGNING_ALGORITHM,
+    false,
+    ["sign"],
+  );
+
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    _privateKey,
+    new TextEncoder().encode(data),
+  );
+
+  return Buffer.from(signature).toString("base64");
+}
+
+export async function verifyWithPublicKey({
+  publicKey,
+  data,
+  signature,
+}: {
+  publicKey: string;
+  data: string;
+  signature: string;
+}) {
+  const _publicKey = await crypto.subtle.importKey(
+    "spki",
+    Buffer.from(publicKey, "base64"),
+    SIGNING_ALGORITHM,
+    false,
+    ["verify"],
+  );
+
+  return crypto.subtle.verify(
+    SIGNATURE_ALGORITHM,
+    _publicKey,
+    Buffer.from(signature, "base64"),
+    new TextEncoder().encode(data),
+  );
+}
+
+export async function sha256Hex(data: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(data),
+  );
+  return Buffer.from(digest).toString("hex");
+}
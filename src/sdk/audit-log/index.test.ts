@@ -0,0 +1,117 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { stringToHex } from "@meshsdk/common";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { resolveTxHash } from "@meshsdk/core-cst";
+import { mockSdk } from "../transport/mock-fixtures";
+import {
+  AuditLog,
+  BackendAuditLogSink,
+  FileAuditLogSink,
+  MemoryAuditLogSink,
+  verifyAuditLog,
+} from ".";
+
+const txHash =
+  "5a1edf7da58eff2059030abd456947a96cb2d16b9d8c3822ffff58d167ed8bfc";
+
+describe("AuditLog", () => {
+  it("records decryptions, signatures and exports in a verifiable chain", async () => {
+    const { sdk } = await mockSdk();
+    const sink = new MemoryAuditLogSink();
+    sdk.auditLog = new AuditLog({ sink, context: { service: "payouts" } });
+
+    const { id } = await sdk.wallet.createWallet();
+    const signer = await sdk.wallet.getSigner(id, {
+      auditContext: { user: "alice" },
+    });
+    const address = await signer.cardano.getChangeAddress();
+    const unsignedTx = await new MeshTxBuilder()
+      .txIn(txHash, 0, [{ unit: "lovelace", quantity: "5000000" }], address, 0)
+      .changeAddress(address)
+      .complete();
+    await signer.cardano.signTx(unsignedTx);
+    const { wallet, bitcoinWallet } = await sdk.wallet.getWallet(id, 0, true);
+
+    expect(sink.entries).toEqual([
+      expect.objectContaining({
+        sequence: 0,
+        action: "decrypt",
+        walletId: id,
+        context: { service: "payouts", user: "alice" },
+      }),
+      expect.objectContaining({
+        sequence: 1,
+        action: "sign",
+        chain: "cardano",
+        txHash: resolveTxHash(unsignedTx),
+      }),
+      expect.objectContaining({ action: "decrypt", walletId: id }),
+      expect.objectContaining({
+        action: "export",
+        walletId: id,
+        context: { service: "payouts" },
+      }),
+    ]);
+    expect(await sdk.auditLog.verify()).toEqual({
+      valid: true,
+      entries: 4,
+      lastHash: sink.entries[3]!.hash,
+    });
+
+    // the chain wallets handed out are audited like signers
+    await wallet.signData(stringToHex("hello"));
+    await bitcoinWallet!.signMessage({
+      address: (await bitcoinWallet!.getAddresses())[0]!.address,
+      message: "hello",
+    });
+    expect(sink.entries.slice(4)).toEqual([
+      expect.objectContaining({ action: "sign", chain: "cardano" }),
+      expect.objectContaining({ action: "sign", chain: "bitcoin" }),
+    ]);
+    await expect(
+      sdk.wallet.getWallet(id, 0, false, { chains: { spark: true } }),
+    ).rejects.toThrow("use getSigner");
+
+    sink.entries[1]!.txHash = "00".repeat(32);
+    expect(await verifyAuditLog(sink.entries)).toEqual({
+      valid: false,
+      sequence: 1,
+      reason: "Hash does not match the entry",
+    });
+    expect(await verifyAuditLog(sink.entries.slice(1))).toMatchObject({
+      valid: false,
+      sequence: 0,
+    });
+  });
+
+  it("continues the chain of a file or backend sink after a restart", async () => {
+    const { sdk, backend } = await mockSdk();
+    const dir = await mkdtemp(join(tmpdir(), "audit-log-"));
+    try {
+      for (const sink of [
+        new FileAuditLogSink({ path: join(dir, "audit.log") }),
+        new BackendAuditLogSink({ sdk }),
+      ]) {
+        await new AuditLog({ sink }).record({
+          action: "decrypt",
+          walletId: "wallet-1",
+        });
+        const entry = await new AuditLog({ sink }).record({
+          action: "sign",
+          walletId: "wallet-1",
+        });
+
+        expect(entry.sequence).toBe(1);
+        expect(await verifyAuditLog(await sink.read())).toMatchObject({
+          valid: true,
+          entries: 2,
+        });
+      }
+      expect(backend.auditLog).toHaveLength(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
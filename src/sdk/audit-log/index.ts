@@ -0,0 +1,374 @@
+import { Web3Sdk } from "..";
+import { MeshWallet } from "@meshsdk/wallet";
+import { EmbeddedWallet } from "@meshsdk/bitcoin";
+import { resolveTxHash } from "@meshsdk/core-cst";
+import { bytesToHex, crypto } from "../../functions";
+import { Web3SdkNotFoundError } from "../errors";
+
+/** The `previousHash` of the first entry of a log. */
+export const AUDIT_LOG_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * What happened to a developer wallet key: `decrypt` for every unwrap, `sign` for every signature,
+ * and `export` when the key left the SDK (`getWallet` with `decryptKey`, `exportMasterSeed`).
+ */
+export type AuditLogAction = "decrypt" | "sign" | "export";
+
+/** Application context of a key access, e.g. the user, request ID or job that triggered it. */
+export type AuditContext = Record<string, string | number | boolean>;
+
+export type AuditLogRecord = {
+  action: AuditLogAction;
+  /** Undefined for the project master seed. */
+  walletId?: string;
+  chain?: "cardano" | "bitcoin" | "spark";
+  /** The hash of the signed Cardano transaction. */
+  txHash?: string;
+  context?: AuditContext;
+};
+
+export type AuditLogEntry = {
+  sequence: number;
+  /** ISO 8601 timestamp. */
+  timestamp: string;
+  action: AuditLogAction;
+  walletId?: string;
+  chain?: "cardano" | "bitcoin" | "spark";
+  txHash?: string;
+  context: AuditContext;
+  /** The `hash` of the previous entry, `AUDIT_LOG_GENESIS_HASH` for the first one. */
+  previousHash: string;
+  /** SHA-256 over the entry without this field, see `hashAuditLogEntry`. */
+  hash: string;
+};
+
+export type AuditLogVerification =
+  | { valid: true; entries: number; lastHash: string }
+  | { valid: false; sequence: number; reason: string };
+
+/**
+ * Where audit entries are stored. Sinks are append-only, and a log expects to be the only writer of its sink.
+ */
+export interface AuditLogSink {
+  append(entry: AuditLogEntry): Promise<void>;
+  /** The most recent entry, used to continue the chain after a restart. */
+  last(): Promise<AuditLogEntry | undefined>;
+  /** All entries, oldest first. */
+  read(): Promise<AuditLogEntry[]>;
+}
+
+export class MemoryAuditLogSink implements AuditLogSink {
+  readonly entries: AuditLogEntry[] = [];
+
+  async append(entry: AuditLogEntry) {
+    this.entries.push(entry);
+  }
+
+  async last() {
+    return this.entries[this.entries.length - 1];
+  }
+
+  async read() {
+    return [...this.entries];
+  }
+}
+
+/**
+ * Appends entries as JSON lines to a local file. Node.js only.
+ */
+export class FileAuditLogSink implements AuditLogSink {
+  private readonly path: string;
+
+  constructor({ path }: { path: string }) {
+    this.path = path;
+  }
+
+  async append(entry: AuditLogEntry) {
+    const { appendFile } = await import("fs/promises");
+    await appendFile(this.path, `${JSON.stringify(entry)}\n`, {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  }
+
+  async last() {
+    const entries = await this.read();
+    return entries[entries.length - 1];
+  }
+
+  async read(): Promise<AuditLogEntry[]> {
+    const { readFile } = await import("fs/promises");
+    let content: string;
+    try {
+      content = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    return content
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line) as AuditLogEntry);
+  }
+}
+
+/**
+ * Stores entries with the UTXOS backend of the project. The backend refuses an entry whose sequence
+ * does not follow the last stored one.
+ */
+export class BackendAuditLogSink implements AuditLogSink {
+  private readonly sdk: Web3Sdk;
+
+  constructor({ sdk }: { sdk: Web3Sdk }) {
+    {
+      this.sdk = sdk;
+    }
+  }
+
+  async append(entry: AuditLogEntry) {
+    await this.sdk.transport.post(
+      `api/project/${this.sdk.projectId}/audit-log`,
+      entry,
+    );
+  }
+
+  async last() {
+    try {
+      const { data } = await this.sdk.transport.get(
+        `api/project/${this.sdk.projectId}/audit-log/last`,
+      );
+      return data as AuditLogEntry;
+    } catch (error) {
+      if (error instanceof Web3SdkNotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  async read() {
+    const { data } = await this.sdk.transport.get(
+      `api/project/${this.sdk.projectId}/audit-log`,
+    );
+    return data as AuditLogEntry[];
+  }
+}
+
+/**
+ * The `AuditLog` class appends hash-chained entries to a sink. Each entry carries the hash of the one before,
+ * so editing, removing or reordering stored entries breaks the chain, see `verifyAuditLog`.
+ *
+ * Pass it as the `auditLog` option of `Web3Sdk` to record every decryption, signature and export of
+ * developer wallet keys. Entries are written before the key or signature is handed back, a failing sink fails the call.
+ */
+export class AuditLog {
+  readonly sink: AuditLogSink;
+  private readonly context: AuditContext;
+  private head: Promise<AuditLogEntry | undefined> | undefined;
+
+  /**
+   * @param params.sink - Where entries are stored.
+   * @param params.context - Context added to every entry, e.g. the service name. Per-call context takes precedence.
+   */
+  constructor({
+    sink,
+    context = {},
+  }: {
+    sink: AuditLogSink;
+    context?: AuditContext;
+  }) {
+    this.sink = sink;
+    this.context = context;
+  }
+
+  /**
+   * Appends an entry, chained to the last one in the sink.
+   *
+   * @returns The stored entry.
+   */
+  async record(record: AuditLogRecord): Promise<AuditLogEntry> {
+    // appends are chained, so every entry is hashed against the one stored right before it
+    const previous = (this.head ?? this.sink.last()).catch(() =>
+      this.sink.last(),
+    );
+    const next = previous.then(async (last) => {
+      const entry = await createEntry(last, {
+        ...record,
+        context: { ...this.context, ...record.context },
+      });
+      await this.sink.append(entry);
+      return entry;
+    });
+    this.head = next;
+
+    return next;
+  }
+
+  /**
+   * Reads the sink and verifies its chain.
+   */
+  async verify(): Promise<AuditLogVerification> {
+    return verifyAuditLog(await this.sink.read());
+  }
+}
+
+/**
+ * Computes the hash of an entry: SHA-256 over the JSON of its fields other than `hash`, with sorted keys.
+ */
+export async function hashAuditLogEntry(
+  entry: Omit<AuditLogEntry, "hash">,
+): Promise<string> {
+  const { hash: _, ...fields } = entry as AuditLogEntry;
+  const bytes = new TextEncoder().encode(canonicalJson(fields));
+  return bytesToHex(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", bytes as BufferSource),
+    ),
+  );
+}
+
+/**
+ * Verifies that entries form one unbroken chain from the start of the log. A log cut short at its end still
+ * verifies, compare `lastHash` with a hash kept elsewhere to detect that.
+ *
+ * @param entries - All entries of a log, oldest first.
+ * @returns The number of entries and the last hash, or the sequence of the first bad entry.
+ */
+export async function verifyAuditLog(
+  entries: AuditLogEntry[],
+): Promise<AuditLogVerification> {
+  let previousHash = AUDIT_LOG_GENESIS_HASH;
+
+  for (const [i, entry] of entries.entries()) {
+    if (entry.sequence !== i) {
+      return {
+        valid: false,
+        sequence: i,
+        reason: `Expected sequence ${i}, found ${entry.sequence}`,
+      };
+    }
+    if (entry.previousHash !== previousHash) {
+      return {
+        valid: false,
+        sequence: i,
+        reason: "Previous hash does not match the previous entry",
+      };
+    }
+    if ((await hashAuditLogEntry(entry)) !== entry.hash) {
+      return {
+        valid: false,
+        sequence: i,
+        reason: "Hash does not match the entry",
+      };
+    }
+    previousHash = entry.hash;
+  }
+
+  return { valid: true, entries: entries.length, lastHash: previousHash };
+}
+
+/**
+ * Records a `sign` entry for every transaction and message the wallet signs, after it is signed and before the
+ * signature is returned.
+ */
+export function auditMeshWallet(
+  wallet: MeshWallet,
+  record: (txHash?: string) => Promise<unknown>,
+): MeshWallet {
+  const signTx = wallet.signTx.bind(wallet);
+  const signTxs = wallet.signTxs.bind(wallet);
+  const signData = wallet.signData.bind(wallet);
+
+  wallet.signTx = async (unsignedTx, ...args) => {
+    const signedTx = await signTx(unsignedTx, ...args);
+    await record(resolveTxHash(unsignedTx));
+    return signedTx;
+  };
+  wallet.signTxs = async (unsignedTxs, ...args) => {
+    const signedTxs = await signTxs(unsignedTxs, ...args);
+    for (const unsignedTx of unsignedTxs) {
+      await record(resolveTxHash(unsignedTx));
+    }
+    return signedTxs;
+  };
+  wallet.signData = async (...args) => {
+    const signature = await signData(...args);
+    await record();
+    return signature;
+  };
+
+  return wallet;
+}
+
+/**
+ * Records a `sign` entry for every message, PSBT and transfer the wallet signs, after it is signed and before the
+ * signature is returned.
+ */
+export function auditBitcoinWallet(
+  wallet: EmbeddedWallet,
+  record: () => Promise<unknown>,
+): EmbeddedWallet {
+  const signMessage = wallet.signMessage.bind(wallet);
+  const signPsbt = wallet.signPsbt.bind(wallet);
+  const signMultipleTransactions = wallet.signMultipleTransactions.bind(wallet);
+  const sendTransfer = wallet.sendTransfer.bind(wallet);
+
+  wallet.signMessage = async (params) => {
+    const result = await signMessage(params);
+    await record();
+    return result;
+  };
+  wallet.signPsbt = async (params) => {
+    const result = await signPsbt(params);
+    await record();
+    return result;
+  };
+  wallet.signMultipleTransactions = async (params) => {
+    const results = await signMultipleTransactions(params);
+    for (let i = 0; i < results.length; i++) {
+      await record();
+    }
+    return results;
+  };
+  wallet.sendTransfer = async (params) => {
+    const result = await sendTransfer(params);
+    await record();
+    return result;
+  };
+
+  return wallet;
+}
+
+async function createEntry(
+  last: AuditLogEntry | undefined,
+  record: AuditLogRecord & { context: AuditContext },
+): Promise<AuditLogEntry> {
+  const fields: Omit<AuditLogEntry, "hash"> = {
+    sequence: last === undefined ? 0 : last.sequence + 1,
+    timestamp: new Date().toISOString(),
+    action: record.action,
+    ...(record.walletId !== undefined && { walletId: record.walletId }),
+    ...(record.chain !== undefined && { chain: record.chain }),
+    ...(record.txHash !== undefined && { txHash: record.txHash }),
+    context: record.context,
+    previousHash: last?.hash ?? AUDIT_LOG_GENESIS_HASH,
+  };
+
+  return { ...fields, hash: await hashAuditLogEntry(fields) };
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
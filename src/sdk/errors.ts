@@ -0,0 +1,144 @@
+import { Web3UsageFeature } from "../types";
+
+export type Web3SdkErrorDetails = {
+  method: string;
+  route: string;
+  status?: number;
+  data?: unknown;
+  cause?: unknown;
+  /** The wait the backend asked for in a `Retry-After` header, in milliseconds. */
+  retryAfterMs?: number;
+};
+
+/**
+ * Base class for every error raised by a `Web3Sdk` backend call.
+ * Carries the HTTP method, route, status and response body of the failed request.
+ */
+export class Web3SdkError extends Error {
+  readonly method: string;
+  readonly route: string;
+  readonly status?: number;
+  readonly data?: unknown;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: Web3SdkErrorDetails) {
+    super(message);
+    this.name = "Web3SdkError";
+    this.method = details.method;
+    this.route = details.route;
+    this.status = details.status;
+    this.data = details.data;
+    this.cause = details.cause;
+  }
+}
+
+export class Web3SdkNotFoundError extends Web3SdkError {
+  constructor(details: Web3SdkErrorDetails) {
+    super(`Not found: ${details.method} ${details.route}`, details);
+    this.name = "Web3SdkNotFoundError";
+  }
+}
+
+export class Web3SdkUnauthorizedError extends Web3SdkError {
+  constructor(details: Web3SdkErrorDetails) {
+    super(`Unauthorized: ${details.method} ${details.route}`, details);
+    this.name = "Web3SdkUnauthorizedError";
+  }
+}
+
+export class Web3SdkRateLimitedError extends Web3SdkError {
+  /** How long to wait before the next request, from the `Retry-After` header, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(details: Web3SdkErrorDetails) {
+    super(`Rate limited: ${details.method} ${details.route}`, details);
+    this.name = "Web3SdkRateLimitedError";
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+export class Web3SdkServerError extends Web3SdkError {
+  /** How long to wait before the next request, from the `Retry-After` header of a 503, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(details: Web3SdkErrorDetails) {
+    super(
+      `Server error (${details.status}): ${details.method} ${details.route}`,
+      details,
+    );
+    this.name = "Web3SdkServerError";
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+export class Web3SdkNetworkError extends Web3SdkError {
+  constructor(details: Web3SdkErrorDetails) {
+    super(`Network error: ${details.method} ${details.route}`, details);
+    this.name = "Web3SdkNetworkError";
+  }
+}
+
+export type Web3SdkCreditShortfall = {
+  feature?: Web3UsageFeature;
+  required?: number;
+  available?: number;
+};
+
+/**
+ * Raised when the project has too few credits, either by the pre-flight check of `Usage.ensureCredits`
+ * or by the backend answering 402.
+ */
+export class Web3SdkInsufficientCreditsError extends Web3SdkError {
+  readonly feature?: Web3UsageFeature;
+  readonly required?: number;
+  readonly available?: number;
+
+  constructor(
+    details: Web3SdkErrorDetails,
+    shortfall: Web3SdkCreditShortfall = {},
+  ) {
+    super(
+      shortfall.required !== undefined && shortfall.available !== undefined
+        ? `Insufficient credits: ${shortfall.required} required, ${shortfall.available} available`
+        : `Insufficient credits: ${details.method} ${details.route}`,
+      details,
+    );
+    this.name = "Web3SdkInsufficientCreditsError";
+    this.feature = shortfall.feature;
+    this.required = shortfall.required;
+    this.available = shortfall.available;
+  }
+}
+
+/**
+ * Maps a non-2xx backend response to the matching `Web3SdkError` subclass.
+ */
+export function errorFromResponse(details: Web3SdkErrorDetails): Web3SdkError {
+  const status = details.status ?? 0;
+
+  if (status === 402) {
+    const data = (details.data ?? {}) as Record<string, unknown>;
+    return new Web3SdkInsufficientCreditsError(details, {
+      feature: data.feature as Web3UsageFeature | undefined,
+      required: typeof data.required === "number" ? data.required : undefined,
+      available:
+        typeof data.available === "number" ? data.available : undefined,
+    });
+  }
+  if (status === 404) {
+    return new Web3SdkNotFoundError(details);
+  }
+  if (status === 401 || status === 403) {
+    return new Web3SdkUnauthorizedError(details);
+  }
+  if (status === 429) {
+    return new Web3SdkRateLimitedError(details);
+  }
+  if (status >= 500) {
+    return new Web3SdkServerError(details);
+  }
+  return new Web3SdkError(
+    `Request failed (${status}): ${details.method} ${details.route}`,
+    details,
+  );
+}
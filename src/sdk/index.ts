@@ -1,98 +1,62 @@
 import axios, { AxiosInstance } from "axios";
 import { WalletDeveloperControlled } from "./wallet-developer-controlled/";
-import { Web3Project } from "../types";
+import { Web3Project, Web3ProjectPublic } from "../types";
 import { IFetcher, ISubmitter } from "@meshsdk/common";
+import { IBitcoinProvider } from "@meshsdk/bitcoin";
 import { Sponsorship } from "./sponsorship";
-
-export const meshUniversalStaticUtxo = {
-  mainnet: {
-    "5": {
-      input: {
-        outputIndex: 0,
-        txHash:
-          "89e9888acc50ec7cc840f3e44ea06d8db1461dd1ba37218e914fcd171d83e4b8",
-      },
-      output: {
-        address:
-          "addr1q8sj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457qh5366a",
-        amount: [
-          {
-            unit: "lovelace",
-            quantity: "5000000",
-          },
-        ],
-      },
-    },
-    "99": {
-      input: {
-        outputIndex: 0,
-        txHash:
-          "cb058a1402fcbcd98be15de8c44ea1a44211119050e8028d3c81878158a5d29d",
-      },
-      output: {
-        address:
-          "addr1q8sj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457qh5366a",
-        amount: [
-          {
-            unit: "lovelace",
-            quantity: "99000000",
-          },
-        ],
-      },
-    },
-  },
-  testnet: {
-    "5": {
-      input: {
-        outputIndex: 0,
-        txHash:
-          "5a1edf7da58eff2059030abd456947a96cb2d16b9d8c3822ffff58d167ed8bfc",
-      },
-      output: {
-        address:
-          "addr_test1qrsj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457q5zv6kz",
-        amount: [
-          {
-            unit: "lovelace",
-            quantity: "5000000",
-          },
-        ],
-      },
-    },
-    "99": {
-      input: {
-        outputIndex: 0,
-        txHash:
-          "8222b0327a95e8c357016a5df64d93d7cf8a585a07c55327ae618a7e00d58d9e",
-      },
-      output: {
-        address:
-          "addr_test1qrsj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457q5zv6kz",
-        amount: [
-          {
-            unit: "lovelace",
-            quantity: "99000000",
-          },
-        ],
-      },
-    },
-  },
-};
+import { Usage } from "./usage";
+import {
+  AxiosTransport,
+  Web3SdkHttpClient,
+  Web3SdkRequestSigner,
+  Web3SdkRetryPolicy,
+  Web3SdkTransport,
+} from "./transport";
+import { Web3SdkEvent, Web3SdkEventListener } from "./instrumentation";
+import { ProjectAdmin, toPublicProject } from "./project";
+import {
+  resolveNetworkProfile,
+  Web3NetworkName,
+  Web3NetworkProfile,
+} from "./network";
+import { KeyCustody, MemoryKeyCustody } from "./key-custody";
+import { AuditLog } from "./audit-log";
+import {
+  SpendingLedger,
+  SpendingPolicy,
+  SpendingPolicyEngine,
+} from "./spending-policy";
 
 export class Web3Sdk {
-  readonly axiosInstance: AxiosInstance;
+  /** The axios instance behind the default transport, `undefined` when a `transport` was passed. */
+  readonly axiosInstance: AxiosInstance | undefined;
+  readonly transport: Web3SdkHttpClient;
 
   readonly appUrl: string;
   readonly projectId: string;
   readonly apiKey: string;
-  readonly privateKey: string | undefined;
+  /** Unwraps developer wallet keys, `undefined` when the SDK was created without a private key. */
+  keyCustody: KeyCustody | undefined;
   readonly providerFetcher: IFetcher | undefined;
   readonly providerSubmitter: ISubmitter | undefined;
-  readonly network: "mainnet" | "testnet";
+  readonly bitcoinProvider: IBitcoinProvider | undefined;
+  /** The name of the network profile, e.g. `mainnet` or `preprod`. */
+  readonly network: string;
+  readonly networkProfile: Web3NetworkProfile;
+  readonly onEvent: Web3SdkEventListener | undefined;
+  readonly preflightCredits: boolean;
+  readonly deriveWallets: boolean;
+  /** Records every decryption, signature and export of developer wallet keys, see `AuditLog`. */
+  auditLog: AuditLog | undefined;
 
-  project: Web3Project | undefined;
+  project: Web3ProjectPublic | undefined;
   wallet: WalletDeveloperControlled;
   sponsorship: Sponsorship;
+  admin: ProjectAdmin;
+  usage: Usage;
+  policies: SpendingPolicyEngine;
+
+  private readonly keyCustodyUses = new Set<Promise<unknown>>();
 
   constructor({
     appUrl,
@@ -100,28 +64,81 @@ export class Web3Sdk {
     apiKey,
     network,
     privateKey,
+    keyCustody,
     fetcher,
     submitter,
+    bitcoinProvider,
+    transport,
+    retry,
+    signingKey,
+    onEvent,
+    preflightCredits,
+    deriveWallets,
+    spendingPolicies,
+    spendingLedger,
+    auditLog,
   }: {
     appUrl?: string;
     projectId: string;
     apiKey: string;
-    network: "mainnet" | "testnet";
+    /** A built-in network name or a custom profile from `defineNetworkProfile`. */
+    network: Web3NetworkName | Web3NetworkProfile;
+    /** Base64 project private key, kept in memory by a `MemoryKeyCustody`. */
     privateKey?: string;
+    /** Custody of the project private key, takes precedence over `privateKey`. */
+    keyCustody?: KeyCustody;
     fetcher?: IFetcher;
     submitter?: ISubmitter;
+    /** Provider for the Bitcoin wallets returned by `wallet.getWallet`. */
+    bitcoinProvider?: IBitcoinProvider;
+    transport?: Web3SdkTransport;
+    retry?: Partial<Web3SdkRetryPolicy> | false;
+    /** Base64 private key from `generateSigningKeyPair`, when set every request is signed. */
+    signingKey?: string;
+    onEvent?: Web3SdkEventListener;
+    /** Check the credit balance before creating a wallet or sponsoring a transaction, see `Usage.ensureCredits`. */
+    preflightCredits?: boolean;
+    /** Derive new developer wallets from the project master seed by default, see `WalletDeveloperControlled.createWallet`. */
+    deriveWallets?: boolean;
+    /** Policies checked before developer wallets sign a Cardano transaction, see `SpendingPolicyEngine`. */
+    spendingPolicies?: SpendingPolicy[];
+    /** Where allowed spends are kept for daily limits (default: in memory). */
+    spendingLedger?: SpendingLedger;
+    auditLog?: AuditLog;
   }) {
     this.appUrl = appUrl ? appUrl : "https://utxos.dev/";
     this.projectId = projectId;
     this.apiKey = apiKey;
-    this.network = network;
-    this.privateKey = privateKey;
+    this.networkProfile = resolveNetworkProfile(network);
+    this.network = this.networkProfile.name;
+    this.keyCustody =
+      keyCustody ??
+      (privateKey !== undefined
+        ? new MemoryKeyCustody({ privateKey })
+        : undefined);
     this.providerFetcher = fetcher;
     this.providerSubmitter = submitter;
+    this.bitcoinProvider = bitcoinProvider;
+    this.onEvent = onEvent;
+    this.preflightCredits = preflightCredits ?? false;
+    this.deriveWallets = deriveWallets ?? false;
+    this.auditLog = auditLog;
 
-    this.axiosInstance = axios.create({
-      baseURL: this.appUrl,
+    if (transport === undefined) {
+      this.axiosInstance = axios.create({
+        baseURL: this.appUrl,
+        headers: { "x-api-key": apiKey },
+      });
+      transport = new AxiosTransport(this.axiosInstance);
+    }
+    this.transport = new Web3SdkHttpClient({
+      transport,
+      retry,
       headers: { "x-api-key": apiKey },
+      signer: signingKey
+        ? new Web3SdkRequestSigner({ privateKey: signingKey })
+        : undefined,
+      onEvent: (event) => this.emit(event),
     });
 
     this.wallet = new WalletDeveloperControlled({
@@ -130,24 +147,129 @@ export class Web3Sdk {
     this.sponsorship = new Sponsorship({
       sdk: this,
     });
+    this.admin = new ProjectAdmin({
+      sdk: this,
+    });
+    this.usage = new Usage({
+      sdk: this,
+    });
+    this.policies = new SpendingPolicyEngine({
+      sdk: this,
+      policies: spendingPolicies,
+      ledger: spendingLedger,
+    });
   }
 
-  async getProject() {
-    if (this.project) {
-      return this.project;
+  /**
+   * The project private key, when it is held by a `MemoryKeyCustody`.
+   *
+   * @deprecated Use `keyCustody` instead, this is `undefined` for any other custody.
+   */
+  get privateKey(): string | undefined {
+    return this.keyCustody instanceof MemoryKeyCustody
+      ? this.keyCustody.privateKey
+      : undefined;
+  }
+
+  /**
+   * Forwards an instrumentation event to the `onEvent` listener. Listener errors are swallowed,
+   * so instrumentation can never break an SDK call.
+   */
+  emit(event: Web3SdkEvent) {
+    if (this.onEvent === undefined) return;
+    try {
+      this.onEvent(event);
+    } catch {}
+  }
+
+  /**
+   * Releases the key custody, and drops the signing key and cached project. Calls still using the custody through
+   * `useKeyCustody` are awaited first, new ones are refused.
+   * JavaScript strings cannot be overwritten in place, so this releases the references for garbage collection;
+   * the instance can no longer decrypt developer wallets afterwards.
+   */
+  async dispose() {
+    const keyCustody = this.keyCustody;
+    this.keyCustody = undefined;
+    this.project = undefined;
+    await Promise.allSettled(this.keyCustodyUses);
+    this.transport.dispose();
+    await keyCustody?.dispose?.();
+  }
+
+  /**
+   * Runs `fn` with the key custody. `dispose` waits for running calls before it releases the custody,
+   * so disposing an SDK, e.g. when `Web3SdkManager` evicts it, does not break a decryption already in flight.
+   *
+   * @param fn - Uses the key custody, it is held until the returned promise settles.
+   * @returns The result of `fn`.
+   *
+   * @throws {Error} If the SDK has no key custody, or has been disposed.
+   */
+  async useKeyCustody<T>(
+    fn: (keyCustody: KeyCustody) => Promise<T>,
+  ): Promise<T> {
+    const keyCustody = this.keyCustody;
+    if (keyCustody === undefined) {
+      throw new Error("Private key not found");
     }
 
-    const { data, status } = await this.axiosInstance.get(
-      `api/project/${this.projectId}`,
-    );
+    const use = fn(keyCustody);
+    this.keyCustodyUses.add(use);
+    try {
+      return await use;
+    } finally {
+      this.keyCustodyUses.delete(use);
+    }
+  }
 
-    if (status === 200) {
-      this.project = data as Web3Project;
+  /**
+   * Retrieves the public view of the project: branding, whitelisted URLs, OAuth client IDs and public key.
+   * It is read from a route that only returns public fields, so secrets never reach the caller. The result is cached.
+   *
+   * @param options.refresh - Reads the project from the backend even when it is cached, and updates the cache.
+   * @returns A promise that resolves to the public project.
+   */
+  async getProject({
+    refresh = false,
+  }: { refresh?: boolean } = {}): Promise<Web3ProjectPublic> {
+    if (this.project && !refresh) {
       return this.project;
     }
 
-    throw new Error("Failed to get project");
+    const { data } = await this.transport.get(
+      `api/project/${this.projectId}/public`,
+    );
+
+    this.project = toPublicProject(data as Web3ProjectPublic);
+    return this.project;
+  }
+
+  /**
+   * Retrieves the full project including the API key and OAuth secrets.
+   * The result is fetched on every call and never cached, use `serializeProject` to log it safely.
+   *
+   * @returns A promise that resolves to the full project.
+   */
+  async getProjectAdmin(): Promise<Web3Project> {
+    const { data } = await this.transport.get(`api/project/${this.projectId}`);
+
+    return data as Web3Project;
   }
 }
 
+export * from "./audit-log";
+export * from "./errors";
+export * from "./instrumentation";
+export * from "./key-ceremony";
+export * from "./key-custody";
+export * from "./key-rotation";
+export * from "./manager";
+export * from "./network";
+export * from "./payouts";
+export * from "./project";
+export * from "./spending-policy";
 export * from "./sponsorship";
+export * from "./transport";
+export * from "./usage";
+export * from "./wallet-developer-controlled";
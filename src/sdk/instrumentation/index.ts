@@ -0,0 +1,75 @@
+export type Web3SdkSponsorshipStep =
+  | "select-utxo"
+  | "prepare-pool"
+  | "rebuild-tx"
+  | "sign";
+
+/**
+ * Structured events emitted by `Web3Sdk` through the `onEvent` constructor option.
+ * Every event carries the duration of the operation it describes, and the error if it failed.
+ */
+export type Web3SdkEvent =
+  | {
+      type: "request";
+      method: string;
+      route: string;
+      /** Zero-based attempt number, greater than 0 for retries. */
+      attempt: number;
+      /** Undefined when the request failed before a response was received. */
+      status?: number;
+      durationMs: number;
+      error?: unknown;
+    }
+  | {
+      type: "wallet-decrypt";
+      walletId: string;
+      durationMs: number;
+      error?: unknown;
+    }
+  | {
+      type: "sponsorship-step";
+      step: Web3SdkSponsorshipStep;
+      sponsorshipId: string;
+      durationMs: number;
+      error?: unknown;
+    }
+  | {
+      type: "sponsorship";
+      sponsorshipId: string;
+      success: boolean;
+      durationMs: number;
+      error?: unknown;
+    }
+  | {
+      type: "policy-decision";
+      walletId: string;
+      /** Undefined when the transaction could not be decoded. */
+      txHash?: string;
+      allowed: boolean;
+      policyIds: string[];
+      violations: string[];
+      durationMs: number;
+      error?: unknown;
+    };
+
+export type Web3SdkEventListener = (event: Web3SdkEvent) => void;
+
+/**
+ * Runs `fn` and reports its duration (and error, if it throws) to `report`.
+ */
+export async function timed<T>(
+  fn: () => Promise<T>,
+  report: (durationMs: number, error?: unknown) => void,
+): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await fn();
+    report(Date.now() - start);
+    return result;
+  } catch (error) {
+    report(Date.now() - start, error);
+    throw error;
+  }
+}
+
+export * from "./metrics";
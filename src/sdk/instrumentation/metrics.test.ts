@@ -0,0 +1,139 @@
+import { routeTemplate, Web3SdkMetrics } from "./metrics";
+
+describe("routeTemplate", () => {
+  it("replaces ids with placeholders", () => {
+    expect(routeTemplate("api/project-wallet/p-1/w-1")).toBe(
+      "api/project-wallet/:id/:id",
+    );
+    expect(routeTemplate("api/project-wallet/p-1/tag/treasury")).toBe(
+      "api/project-wallet/:id/tag/:id",
+    );
+    expect(routeTemplate("api/sponsorship/output/w-1/pending")).toBe(
+      "api/sponsorship/output/:id/pending",
+    );
+    expect(routeTemplate("api/sponsorship/tx-parser")).toBe(
+      "api/sponsorship/tx-parser",
+    );
+    expect(routeTemplate("api/usage/p-1?from=2024-01-01")).toBe(
+      "api/usage/:id",
+    );
+    expect(routeTemplate("api/usage/p-1/credits")).toBe(
+      "api/usage/:id/credits",
+    );
+    expect(
+      routeTemplate("api/project-wallet/p-1/page?limit=50&cursor=c-1"),
+    ).toBe("api/project-wallet/:id/page");
+    expect(routeTemplate("api/project/p-1/key-rotation/wallet/w-1")).toBe(
+      "api/project/:id/key-rotation/wallet/:id",
+    );
+    expect(routeTemplate("api/project/p-1/key-rotation/commit")).toBe(
+      "api/project/:id/key-rotation/commit",
+    );
+    expect(routeTemplate("api/project/p-1/key-rotation/master-seed")).toBe(
+      "api/project/:id/key-rotation/master-seed",
+    );
+    expect(routeTemplate("api/project/p-1/master-seed/index")).toBe(
+      "api/project/:id/master-seed/index",
+    );
+    expect(routeTemplate("api/project/p-1/audit-log")).toBe(
+      "api/project/:id/audit-log",
+    );
+    expect(routeTemplate("api/project/p-1/audit-log/last")).toBe(
+      "api/project/:id/audit-log/last",
+    );
+    expect(routeTemplate("api/project-wallet/p-1/w-1/minting-policy")).toBe(
+      "api/project-wallet/:id/:id/minting-policy",
+    );
+    expect(routeTemplate("api/project-wallet/p-1/w-1/tags")).toBe(
+      "api/project-wallet/:id/:id/tags",
+    );
+  });
+
+  it("replaces ids that equal a path literal", () => {
+    expect(routeTemplate("api/project-wallet/p-1/tag/commit")).toBe(
+      "api/project-wallet/:id/tag/:id",
+    );
+    expect(routeTemplate("api/project-wallet/tags/wallet/tags")).toBe(
+      "api/project-wallet/:id/:id/tags",
+    );
+    expect(routeTemplate("api/sponsorship/public")).toBe("api/sponsorship/:id");
+    expect(routeTemplate("api/project/usage/key-rotation/wallet/index")).toBe(
+      "api/project/:id/key-rotation/wallet/:id",
+    );
+  });
+
+  it("keeps only the resource of unknown routes", () => {
+    expect(routeTemplate("api/project/p-1/webhooks/h-1")).toBe(
+      "api/project/:id/:id/:id",
+    );
+  });
+});
+
+describe("Web3SdkMetrics", () => {
+  it("counts requests per route and status", () => {
+    const metrics = new Web3SdkMetrics({ buckets: [10, 100] });
+
+    metrics.record({
+      type: "request",
+      method: "GET",
+      route: "api/project/p-1",
+      attempt: 0,
+      status: 200,
+      durationMs: 5,
+    });
+    metrics.record({
+      type: "request",
+      method: "GET",
+      route: "api/project/p-2",
+      attempt: 0,
+      status: 200,
+      durationMs: 50,
+    });
+
+    const { counters, histograms } = metrics.snapshot();
+    expect(counters["web3sdk_requests_total"]).toEqual([
+      {
+        labels: { method: "GET", route: "api/project/:id", status: "200" },
+        value: 2,
+      },
+    ]);
+    expect(histograms["web3sdk_request_duration_ms"]).toEqual([
+      {
+        labels: { method: "GET", route: "api/project/:id" },
+        bucketCounts: [1, 2],
+        count: 2,
+        sum: 55,
+      },
+    ]);
+  });
+
+  it("records sponsorship outcomes and renders prometheus text", () => {
+    const metrics = new Web3SdkMetrics({ buckets: [100] });
+
+    metrics.record({
+      type: "sponsorship-step",
+      step: "sign",
+      sponsorshipId: "s-1",
+      durationMs: 20,
+    });
+    metrics.record({
+      type: "sponsorship",
+      sponsorshipId: "s-1",
+      success: false,
+      durationMs: 200,
+      error: new Error("no utxo"),
+    });
+
+    const text = metrics.toPrometheus();
+    expect(text).toContain(
+      'web3sdk_sponsorship_steps_total{step="sign",outcome="success"} 1',
+    );
+    expect(text).toContain('web3sdk_sponsorships_total{outcome="failure"} 1');
+    expect(text).toContain(
+      'web3sdk_sponsorship_duration_ms_bucket{outcome="failure",le="100"} 0',
+    );
+    expect(text).toContain(
+      'web3sdk_sponsorship_duration_ms_bucket{outcome="failure",le="+Inf"} 1',
+    );
+  });
+});
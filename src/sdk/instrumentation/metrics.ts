@@ -0,0 +1,286 @@
+import type { Web3SdkEvent } from ".";
+
+export type MetricLabels = Record<string, string>;
+
+export type CounterSeries = {
+  labels: MetricLabels;
+  value: number;
+};
+
+export type HistogramSeries = {
+  labels: MetricLabels;
+  /** Cumulative count per bucket upper bound, in the order of `buckets`. */
+  bucketCounts: number[];
+  count: number;
+  sum: number;
+};
+
+export type Web3SdkMetricsSnapshot = {
+  buckets: number[];
+  counters: Record<string, CounterSeries[]>;
+  histograms: Record<string, HistogramSeries[]>;
+};
+
+export const DEFAULT_DURATION_BUCKETS_MS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+// the backend routes called by the SDK, `:id` marks the segments that hold ids
+const ROUTE_TEMPLATES = [
+  "api/project/:id",
+  "api/project/:id/public",
+  "api/project/:id/master-seed",
+  "api/project/:id/master-seed/index",
+  "api/project/:id/audit-log",
+  "api/project/:id/audit-log/last",
+  "api/project/:id/key-rotation/master-seed",
+  "api/project/:id/key-rotation/wallet/:id",
+  "api/project/:id/key-rotation/commit",
+  "api/usage/:id",
+  "api/usage/:id/credits",
+  "api/project-wallet",
+  "api/project-wallet/:id",
+  "api/project-wallet/:id/page",
+  "api/project-wallet/:id/tag/:id",
+  "api/project-wallet/:id/:id",
+  "api/project-wallet/:id/:id/tags",
+  "api/project-wallet/:id/:id/minting-policy",
+  "api/sponsorship/tx-parser",
+  "api/sponsorship/output/:id/pending",
+  "api/sponsorship/output/:id/:id/:id",
+  "api/sponsorship/:id",
+  "api/sponsorship/:id/refreshTxHash",
+]
+  .map((template) => template.split("/"))
+  // a route matching several templates, e.g. a wallet with the id `page`, takes the one with most literals
+  .sort((a, b) => placeholders(a) - placeholders(b));
+
+function placeholders(template: string[]) {
+  return template.filter((segment) => segment === ":id").length;
+}
+
+/**
+ * Replaces ids in a backend route with `:id`, so that metrics are grouped per endpoint.
+ * Ids are recognised by their position in the route, so an id that happens to equal a path literal is still replaced.
+ * Routes the SDK does not know keep their first two segments, e.g. `api/project`, and lose the rest.
+ */
+export function routeTemplate(route: string): string {
+  const segments = route
+    .split("?")[0]!
+    .split("/")
+    .filter((segment) => segment.length > 0);
+
+  const template = ROUTE_TEMPLATES.find(
+    (template) =>
+      template.length === segments.length &&
+      template.every(
+        (segment, i) => segment === ":id" || segment === segments[i],
+      ),
+  );
+  if (template) {
+    return template.join("/");
+  }
+  return segments.map((segment, i) => (i < 2 ? segment : ":id")).join("/");
+}
+
+function seriesKey(name: string, labels: MetricLabels) {
+  return `${name}${JSON.stringify(labels)}`;
+}
+
+/**
+ * The `Web3SdkMetrics` class is an in-process metrics collector for `Web3Sdk` events.
+ * Pass `metrics.record` as the `onEvent` option of `Web3Sdk`, then read `snapshot()` or
+ * `toPrometheus()` from your own exporter.
+ */
+export class Web3SdkMetrics {
+  readonly buckets: number[];
+
+  private readonly counters = new Map<
+    string,
+    { name: string } & CounterSeries
+  >();
+  private readonly histograms = new Map<
+    string,
+    { name: string } & HistogramSeries
+  >();
+
+  constructor({ buckets }: { buckets?: number[] } = {}) {
+    this.buckets = [...(buckets ?? DEFAULT_DURATION_BUCKETS_MS)].sort(
+      (a, b) => a - b,
+    );
+  }
+
+  record = (event: Web3SdkEvent) => {
+    const outcome = event.error === undefined ? "success" : "error";
+
+    switch (event.type) {
+      case "request": {
+        const route = routeTemplate(event.route);
+        this.increment("web3sdk_requests_total", {
+          method: event.method,
+          route,
+          status: event.status === undefined ? "none" : String(event.status),
+        });
+        this.observe(
+          "web3sdk_request_duration_ms",
+          { method: event.method, route },
+          event.durationMs,
+        );
+        break;
+      }
+      case "wallet-decrypt":
+        this.increment("web3sdk_wallet_decryptions_total", { outcome });
+        this.observe(
+          "web3sdk_wallet_decryption_duration_ms",
+          {},
+          event.durationMs,
+        );
+        break;
+      case "sponsorship-step":
+        this.increment("web3sdk_sponsorship_steps_total", {
+          step: event.step,
+          outcome,
+        });
+        this.observe(
+          "web3sdk_sponsorship_step_duration_ms",
+          { step: event.step },
+          event.durationMs,
+        );
+        break;
+      case "sponsorship": {
+        const result = event.success ? "success" : "failure";
+        this.increment("web3sdk_sponsorships_total", { outcome: result });
+        this.observe(
+          "web3sdk_sponsorship_duration_ms",
+          { outcome: result },
+          event.durationMs,
+        );
+        break;
+      }
+      case "policy-decision": {
+        const result =
+          event.error !== undefined
+            ? "error"
+            : event.allowed
+              ? "allowed"
+              : "denied";
+        this.increment("web3sdk_policy_decisions_total", { outcome: result });
+        this.observe(
+          "web3sdk_policy_decision_duration_ms",
+          {},
+          event.durationMs,
+        );
+        break;
+      }
+    }
+  };
+
+  snapshot(): Web3SdkMetricsSnapshot {
+    const counters: Web3SdkMetricsSnapshot["counters"] = {};
+    for (const { name, labels, value } of this.counters.values()) {
+      (counters[name] ??= []).push({ labels: { ...labels }, value });
+    }
+
+    const histograms: Web3SdkMetricsSnapshot["histograms"] = {};
+    for (const {
+      name,
+      labels,
+      bucketCounts,
+      count,
+      sum,
+    } of this.histograms.values()) {
+      (histograms[name] ??= []).push({
+        labels: { ...labels },
+        bucketCounts: [...bucketCounts],
+        count,
+        sum,
+      });
+    }
+
+    return { buckets: [...this.buckets], counters, histograms };
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(): string {
+    const { counters, histograms } = this.snapshot();
+    const lines: string[] = [];
+
+    for (const [name, series] of Object.entries(counters)) {
+      lines.push(`# TYPE ${name} counter`);
+      for (const { labels, value } of series) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    }
+
+    for (const [name, series] of Object.entries(histograms)) {
+      lines.push(`# TYPE ${name} histogram`);
+      for (const { labels, bucketCounts, count, sum } of series) {
+        this.buckets.forEach((bound, i) => {
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${bucketCounts[i]}`,
+          );
+        });
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        );
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  reset() {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private increment(name: string, labels: MetricLabels) {
+    const key = seriesKey(name, labels);
+    const series = this.counters.get(key);
+    if (series) {
+      series.value++;
+    } else {
+      this.counters.set(key, { name, labels, value: 1 });
+    }
+  }
+
+  private observe(name: string, labels: MetricLabels, value: number) {
+    const key = seriesKey(name, labels);
+    let series = this.histograms.get(key);
+    if (series === undefined) {
+      series = {
+        name,
+        labels,
+        bucketCounts: this.buckets.map(() => 0),
+        count: 0,
+        sum: 0,
+      };
+      this.histograms.set(key, series);
+    }
+
+    series.count++;
+    series.sum += value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.bucketCounts[i]!++;
+    });
+  }
+}
+
+function formatLabels(labels: MetricLabels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
@@ -0,0 +1,88 @@
+import { encryptWithPublicKey, generateKeyPair } from "../../functions";
+import {
+  decryptProjectKeyShare,
+  KeyCeremony,
+  KeyCeremonyError,
+  splitProjectKey,
+} from ".";
+
+describe("KeyCeremony", () => {
+  async function setup() {
+    const project = await generateKeyPair();
+    const adminKeys = await Promise.all(
+      ["alice", "bob", "carol"].map(async (id) => ({
+        id,
+        ...(await generateKeyPair()),
+      })),
+    );
+    const shares = await splitProjectKey({
+      privateKey: project.privateKey,
+      admins: adminKeys,
+      threshold: 2,
+    });
+    const decrypted = await Promise.all(
+      shares.map((share, i) =>
+        decryptProjectKeyShare({ share, privateKey: adminKeys[i]!.privateKey }),
+      ),
+    );
+
+    return { project, shares, decrypted };
+  }
+
+  it("rebuilds the key from any two of three shares for one session", async () => {
+    const { project, shares, decrypted } = await setup();
+    const secret = await encryptWithPublicKey({
+      publicKey: project.publicKey,
+      data: "treasury",
+    });
+
+    const ceremony = new KeyCeremony({ shares });
+    ceremony.addShare("alice", decrypted[0]!);
+    await expect(ceremony.open()).rejects.toThrow("1 more shares needed");
+    expect(() => ceremony.addShare("alice", decrypted[0]!)).toThrow(
+      KeyCeremonyError,
+    );
+    ceremony.addShare("carol", decrypted[2]!);
+
+    const session = await ceremony.open();
+    expect(await session.decrypt(secret)).toBe("treasury");
+
+    session.dispose();
+    expect(session.isOpen).toBe(false);
+    await expect(session.decrypt(secret)).rejects.toThrow(
+      "Key ceremony session is closed",
+    );
+    expect(ceremony.missing).toBe(2);
+  });
+
+  it("closes the session when its time runs out", async () => {
+    jest.useFakeTimers();
+    try {
+      const { shares, decrypted } = await setup();
+      const ceremony = new KeyCeremony({ shares });
+      ceremony.addShare("alice", decrypted[0]!);
+      ceremony.addShare("bob", decrypted[1]!);
+
+      const session = await ceremony.open({ ttlMs: 1000 });
+      expect(session.isOpen).toBe(true);
+      jest.advanceTimersByTime(1000);
+      expect(session.isOpen).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("rejects shares that do not rebuild the key", async () => {
+    const { shares, decrypted } = await setup();
+    const ceremony = new KeyCeremony({ shares });
+    ceremony.addShare("alice", decrypted[0]!);
+    ceremony.addShare("bob", decrypted[0]!);
+
+    await expect(ceremony.open()).rejects.toThrow(
+      "Shares do not rebuild the project key",
+    );
+    await expect(
+      splitProjectKey({ privateKey: "", admins: [], threshold: 1 }),
+    ).rejects.toThrow(KeyCeremonyError);
+  });
+});
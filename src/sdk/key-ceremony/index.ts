@@ -0,0 +1,260 @@
+import {
+  bytesToHex,
+  crypto,
+  decryptWithPrivateKey,
+  encryptWithPublicKey,
+  hexToBytes,
+  shamirCombine,
+  shamirSplit,
+} from "../../functions";
+import { KeyCustody } from "../key-custody";
+
+const DEFAULT_SESSION_TTL_MS = 15 * 60 * 1000;
+
+export type KeyCeremonyAdmin = {
+  id: string;
+  /** The admin's public key from `generateKeyPair`. */
+  publicKey: string;
+};
+
+/**
+ * One admin's share of the project private key. Safe to store anywhere: the share itself is
+ * encrypted to the admin, and `keyHash` only lets a ceremony check the rebuilt key.
+ */
+export type ProjectKeyShare = {
+  adminId: string;
+  threshold: number;
+  /** SHA-256 of the project private key, the same on every share of one split. */
+  keyHash: string;
+  /** The hex share, encrypted with `encryptWithPublicKey` to the admin's public key. */
+  encryptedShare: string;
+};
+
+export class KeyCeremonyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeyCeremonyError";
+  }
+}
+
+/**
+ * Splits the project private key into one share per admin, any `threshold` of which rebuild the key.
+ *
+ * @param params.privateKey - The base64 project private key.
+ * @param params.admins - The admins to receive a share, with unique IDs.
+ * @param params.threshold - The number of shares needed to rebuild the key, at least 2.
+ * @returns The shares, in the order of `admins`.
+ *
+ * @throws {KeyCeremonyError} If the threshold is out of range or an admin ID is repeated.
+ */
+export async function splitProjectKey({
+  privateKey,
+  admins,
+  threshold,
+}: {
+  privateKey: string;
+  admins: KeyCeremonyAdmin[];
+  threshold: number;
+}): Promise<ProjectKeyShare[]> {
+  if (
+    !Number.isInteger(threshold) ||
+    threshold < 2 ||
+    threshold > admins.length ||
+    admins.length > 255
+  ) {
+    throw new KeyCeremonyError(
+      `Threshold must be between 2 and the number of admins (${admins.length}), at most 255 admins`,
+    );
+  }
+  if (new Set(admins.map((admin) => admin.id)).size !== admins.length) {
+    throw new KeyCeremonyError("Admin IDs must be unique");
+  }
+
+  const decoded = Buffer.from(privateKey, "base64");
+  const secret = new Uint8Array(decoded);
+  decoded.fill(0);
+  try {
+    const keyHash = await hashKey(secret);
+    const shares = await shamirSplit(secret, admins.length, threshold);
+
+    return await Promise.all(
+      admins.map(async (admin, i) => ({
+        adminId: admin.id,
+        threshold,
+        keyHash,
+        encryptedShare: await encryptWithPublicKey({
+          publicKey: admin.publicKey,
+          data: bytesToHex(shares[i]!),
+        }),
+      })),
+    );
+  } finally {
+    secret.fill(0);
+  }
+}
+
+/**
+ * Decrypts an admin's share, run by the admin on their own machine before handing the share to the ceremony.
+ *
+ * @param params.share - The admin's share from `splitProjectKey`.
+ * @param params.privateKey - The admin's private key.
+ * @returns The hex share to pass to `KeyCeremony.addShare`.
+ */
+export async function decryptProjectKeyShare({
+  share,
+  privateKey,
+}: {
+  share: ProjectKeyShare;
+  privateKey: string;
+}): Promise<string> {
+  return decryptWithPrivateKey({
+    privateKey,
+    encryptedDataJSON: share.encryptedShare,
+  });
+}
+
+/**
+ * The `KeyCeremony` class collects decrypted admin shares until the threshold is reached,
+ * then rebuilds the project private key for one bounded session.
+ *
+ * ```ts
+ * const ceremony = new KeyCeremony({ shares });
+ * ceremony.addShare("alice", aliceShare);
+ * ceremony.addShare("bob", bobShare);
+ * const session = await ceremony.open({ ttlMs: 60_000 });
+ * sdk.keyCustody = session;
+ * try { ... } finally { session.dispose(); }
+ * ```
+ */
+export class KeyCeremony {
+  private readonly shares: Map<string, ProjectKeyShare>;
+  private readonly collected = new Map<string, Uint8Array>();
+  private readonly threshold: number;
+  private readonly keyHash: string;
+
+  /**
+   * @param params.shares - Every share of one split, or at least those of the admins taking part.
+   * @throws {KeyCeremonyError} If the shares come from different splits.
+   */
+  constructor({ shares }: { shares: ProjectKeyShare[] }) {
+    const [first] = shares;
+    if (first === undefined) {
+      throw new KeyCeremonyError("No shares given");
+    }
+    if (
+      shares.some(
+        (share) =>
+          share.keyHash !== first.keyHash ||
+          share.threshold !== first.threshold,
+      )
+    ) {
+      throw new KeyCeremonyError("Shares belong to different key splits");
+    }
+
+    this.shares = new Map(shares.map((share) => [share.adminId, share]));
+    this.threshold = first.threshold;
+    this.keyHash = first.keyHash;
+  }
+
+  /** The number of shares still needed to open a session. */
+  get missing(): number {
+    return Math.max(this.threshold - this.collected.size, 0);
+  }
+
+  /**
+   * Adds an admin's decrypted share.
+   *
+   * @param adminId - The admin the share belongs to.
+   * @param share - The hex share from `decryptProjectKeyShare`.
+   * @throws {KeyCeremonyError} If the admin holds no share or already added it.
+   */
+  addShare(adminId: string, share: string) {
+    if (!this.shares.has(adminId)) {
+      throw new KeyCeremonyError(`Admin ${adminId} holds no share of this key`);
+    }
+    if (this.collected.has(adminId)) {
+      throw new KeyCeremonyError(`Admin ${adminId} already added a share`);
+    }
+    this.collected.set(adminId, hexToBytes(share));
+  }
+
+  /**
+   * Rebuilds the project private key and opens a session holding it. The collected shares are wiped,
+   * so every session needs a new round of shares.
+   *
+   * @param options.ttlMs - How long the session holds the key (default: 15 minutes).
+   * @returns A session usable as the `keyCustody` of a `Web3Sdk`.
+   *
+   * @throws {KeyCeremonyError} If fewer shares than the threshold were added, or they do not rebuild the key.
+   */
+  async open({
+    ttlMs = DEFAULT_SESSION_TTL_MS,
+  }: { ttlMs?: number } = {}): Promise<KeyCeremonySession> {
+    if (this.missing > 0) {
+      throw new KeyCeremonyError(`${this.missing} more shares needed`);
+    }
+
+    const shares = [...this.collected.values()];
+    this.collected.clear();
+
+    let key: Uint8Array;
+    try {
+      key = await shamirCombine(shares);
+    } catch {
+      throw new KeyCeremonyError("Shares do not rebuild the project key");
+    } finally {
+      for (const share of shares) share.fill(0);
+    }
+
+    if ((await hashKey(key)) !== this.keyHash) {
+      key.fill(0);
+      throw new KeyCeremonyError("Shares do not rebuild the project key");
+    }
+
+    return new KeyCeremonySession(key, ttlMs);
+  }
+}
+
+/**
+ * Holds the rebuilt project private key until it is disposed or its time runs out, whichever comes first.
+ * The key is kept as bytes, which are zeroed when the session ends.
+ */
+export class KeyCeremonySession implements KeyCustody {
+  readonly expiresAt: Date;
+  private key: Uint8Array | undefined;
+  private readonly timer: ReturnType<typeof setTimeout>;
+
+  constructor(key: Uint8Array, ttlMs: number) {
+    this.key = key;
+    this.expiresAt = new Date(Date.now() + ttlMs);
+    this.timer = setTimeout(() => this.dispose(), ttlMs);
+    // an open session must not keep the process alive
+    this.timer.unref?.();
+  }
+
+  get isOpen(): boolean {
+    return this.key !== undefined;
+  }
+
+  async decrypt(encryptedDataJSON: string): Promise<string> {
+    if (this.key === undefined) {
+      throw new KeyCeremonyError("Key ceremony session is closed");
+    }
+    return decryptWithPrivateKey({
+      privateKey: Buffer.from(this.key).toString("base64"),
+      encryptedDataJSON,
+    });
+  }
+
+  dispose() {
+    clearTimeout(this.timer);
+    this.key?.fill(0);
+    this.key = undefined;
+  }
+}
+
+async function hashKey(key: Uint8Array): Promise<string> {
+  return bytesToHex(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", key as BufferSource)),
+  );
+}
@@ -0,0 +1,74 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { encryptWithPublicKey, generateKeyPair } from "../../functions";
+import { mockSdk } from "../transport/mock-fixtures";
+import { ProjectKeyRotation } from "../key-rotation";
+import { FileKeyCustody, KeyCustody } from ".";
+
+describe("FileKeyCustody", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "key-custody-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("unwraps with the key on disk and takes a rotated key", async () => {
+    const { publicKey, privateKey } = await generateKeyPair();
+    const path = join(dir, "project.key");
+    await writeFile(path, `${privateKey}\n`);
+
+    const custody = new FileKeyCustody({ path });
+    expect(
+      await custody.decrypt(
+        await encryptWithPublicKey({ publicKey, data: "secret" }),
+      ),
+    ).toBe("secret");
+
+    const next = await generateKeyPair();
+    await custody.replaceKey(next.privateKey);
+    expect(await readFile(path, "utf8")).toBe(next.privateKey);
+    expect(
+      await custody.decrypt(
+        await encryptWithPublicKey({ publicKey: next.publicKey, data: "next" }),
+      ),
+    ).toBe("next");
+  });
+
+  it("backs the wallets of an SDK instance", async () => {
+    const path = join(dir, "project.key");
+    const { sdk, privateKey } = await mockSdk({
+      keyCustody: new FileKeyCustody({ path }),
+    });
+    await writeFile(path, privateKey);
+
+    const { id } = await sdk.wallet.createWallet();
+    const { info } = await sdk.wallet.getWallet(id, 0, true);
+    expect(info.key.split(" ")).toHaveLength(24);
+
+    expect(sdk.privateKey).toBeUndefined();
+
+    const fileCustody = sdk.keyCustody!;
+    const readOnly: KeyCustody = {
+      decrypt: (encryptedDataJSON) => fileCustody.decrypt(encryptedDataJSON),
+    };
+    sdk.keyCustody = readOnly;
+    await expect(new ProjectKeyRotation({ sdk }).run()).rejects.toThrow(
+      "Key custody does not support replacing its key",
+    );
+  });
+});
+
+describe("MemoryKeyCustody", () => {
+  it("still exposes the key passed to the SDK until it is disposed", async () => {
+    const { sdk, privateKey } = await mockSdk();
+
+    expect(sdk.privateKey).toBe(privateKey);
+    await sdk.dispose();
+    expect(sdk.privateKey).toBeUndefined();
+  });
+});
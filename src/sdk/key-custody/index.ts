@@ -0,0 +1,87 @@
+import { decryptWithPrivateKey } from "../../functions";
+
+/**
+ * Holds the project private key and performs the ECDH unwrap of data encrypted with `encryptWithPublicKey`,
+ * so the key can live in a KMS or HSM-style service instead of the SDK's memory.
+ */
+export interface KeyCustody {
+  /**
+   * Decrypts data encrypted with `encryptWithPublicKey` under the project public key.
+   *
+   * @param encryptedDataJSON - The output of `encryptWithPublicKey`.
+   * @returns The decrypted data.
+   */
+  decrypt(encryptedDataJSON: string): Promise<string>;
+  /**
+   * Replaces the held key, called by `ProjectKeyRotation` once the backend has switched to the new key pair.
+   * Custodies that cannot import keys leave it out, and cannot be rotated by the SDK.
+   */
+  replaceKey?(privateKey: string): Promise<void>;
+  /** Releases the held key, called by `Web3Sdk.dispose`. */
+  dispose?(): void | Promise<void>;
+}
+
+/**
+ * Keeps the private key in process memory. This is what `Web3Sdk` uses when given a `privateKey`.
+ */
+export class MemoryKeyCustody implements KeyCustody {
+  private key: string | undefined;
+
+  constructor({ privateKey }: { privateKey: string }) {
+    this.key = privateKey;
+  }
+
+  /** The held private key, `undefined` once disposed. */
+  get privateKey(): string | undefined {
+    return this.key;
+  }
+
+  async decrypt(encryptedDataJSON: string): Promise<string> {
+    if (this.key === undefined) {
+      throw new Error("Key custody is disposed");
+    }
+    return decryptWithPrivateKey({
+      privateKey: this.key,
+      encryptedDataJSON,
+    });
+  }
+
+  async replaceKey(privateKey: string) {
+    this.key = privateKey;
+  }
+
+  dispose() {
+    this.key = undefined;
+  }
+}
+
+/**
+ * A local stand-in for a key management service: the base64 private key is read from a file for every
+ * unwrap and never kept in memory between calls. Restrict access to the file, e.g. `chmod 600`.
+ * Node.js only.
+ */
+export class FileKeyCustody implements KeyCustody {
+  private readonly path: string;
+
+  constructor({ path }: { path: string }) {
+    this.path = path;
+  }
+
+  async decrypt(encryptedDataJSON: string): Promise<string> {
+    const { readFile } = await import("fs/promises");
+    const privateKey = (await readFile(this.path, "utf8")).trim();
+
+    return decryptWithPrivateKey({ privateKey, encryptedDataJSON });
+  }
+
+  /**
+   * Writes the new key next to the old one and renames it into place, so the file is never left half-written.
+   */
+  async replaceKey(privateKey: string) {
+    const { rename, writeFile } = await import("fs/promises");
+    const tempPath = `${this.path}.${Date.now()}.tmp`;
+
+    await writeFile(tempPath, privateKey, { encoding: "utf8", mode: 0o600 });
+    await rename(tempPath, this.path);
+  }
+}
@@ -0,0 +1,156 @@
+import { encryptWithPublicKey, generateKeyPair } from "../../functions";
+import { mockSdk } from "../transport/mock-fixtures";
+import { AuditLog, MemoryAuditLogSink } from "../audit-log";
+import { MemoryKeyRotationStore, ProjectKeyRotation } from ".";
+
+async function setup() {
+  const { sdk, backend } = await mockSdk();
+
+  const wallets = [];
+  for (let i = 0; i < 3; i++) {
+    wallets.push(await sdk.wallet.createWallet());
+  }
+
+  return { sdk, backend, wallets };
+}
+
+describe("ProjectKeyRotation", () => {
+  it("re-encrypts every wallet and switches the project key", async () => {
+    const { sdk, backend, wallets } = await setup();
+    const mnemonic = (await sdk.wallet.getWallet(wallets[0]!.id, 0, true)).info
+      .key;
+    const sink = new MemoryAuditLogSink();
+    sdk.auditLog = new AuditLog({ sink });
+
+    const progress: string[] = [];
+    const { publicKey, state } = await new ProjectKeyRotation({
+      sdk,
+    }).run({
+      onProgress: ({ phase, processed }) =>
+        progress.push(`${phase}:${processed}`),
+    });
+
+    expect(progress).toEqual([
+      "reencrypt:1",
+      "reencrypt:2",
+      "reencrypt:3",
+      "verify:1",
+      "verify:2",
+      "verify:3",
+      "done:3",
+    ]);
+    expect(state.phase).toBe("done");
+    // each key is decrypted once to re-encrypt it and once to verify it
+    expect(sink.entries).toHaveLength(6);
+    expect(
+      sink.entries.filter(
+        (entry) =>
+          entry.action === "decrypt" &&
+          entry.walletId === wallets[0]!.id &&
+          entry.context.operation === "key-rotation",
+      ),
+    ).toHaveLength(2);
+    expect(backend.project.publicKey).toBe(publicKey);
+    expect((await sdk.getProject()).publicKey).toBe(publicKey);
+    expect(
+      await sdk.keyCustody!.decrypt(
+        await encryptWithPublicKey({ publicKey, data: "probe" }),
+      ),
+    ).toBe("probe");
+    expect((await sdk.wallet.getWallet(wallets[0]!.id, 0, true)).info.key).toBe(
+      mnemonic,
+    );
+  });
+
+  it("resumes an interrupted rotation and stages wallets created meanwhile", async () => {
+    const { sdk, backend } = await setup();
+    const store = new MemoryKeyRotationStore();
+    const newKeyPair = await generateKeyPair();
+    const put = jest.spyOn(backend, "put");
+
+    await expect(
+      new ProjectKeyRotation({ sdk, store }).run({
+        newKeyPair,
+        onProgress: ({ processed }) => {
+          if (processed === 2) throw new Error("interrupted");
+        },
+      }),
+    ).rejects.toThrow("interrupted");
+    expect(put).toHaveBeenCalledTimes(2);
+    expect(backend.project.publicKey).not.toBe(newKeyPair.publicKey);
+    expect(
+      await sdk.keyCustody!.decrypt(
+        await encryptWithPublicKey({
+          publicKey: backend.project.publicKey!,
+          data: "probe",
+        }),
+      ),
+    ).toBe("probe");
+
+    // created under the old key while the rotation is paused
+    const late = await sdk.wallet.createWallet();
+
+    const { state } = await new ProjectKeyRotation({ sdk, store }).run({
+      newKeyPair,
+    });
+    expect(put).toHaveBeenCalledTimes(4);
+    expect(state.verified).toHaveLength(4);
+    expect(backend.project.publicKey).toBe(newKeyPair.publicKey);
+    expect(
+      (await sdk.wallet.getWallet(late.id, 0, true)).info.key.split(" "),
+    ).toHaveLength(24);
+  });
+
+  it("finishes a rotation whose swap succeeded before the key custody failed", async () => {
+    const { sdk, backend } = await setup();
+    const store = new MemoryKeyRotationStore();
+    const newKeyPair = await generateKeyPair();
+    const replaceKey = jest
+      .spyOn(sdk.keyCustody!, "replaceKey")
+      .mockRejectedValueOnce(new Error("custody unavailable"));
+
+    await expect(
+      new ProjectKeyRotation({ sdk, store }).run({ newKeyPair }),
+    ).rejects.toThrow("custody unavailable");
+    expect(backend.project.publicKey).toBe(newKeyPair.publicKey);
+
+    const put = jest.spyOn(backend, "put");
+    const { state } = await new ProjectKeyRotation({ sdk, store }).run({
+      newKeyPair,
+    });
+    expect(state.phase).toBe("done");
+    expect(put).not.toHaveBeenCalled();
+    expect(replaceKey).toHaveBeenCalledTimes(2);
+    expect((await sdk.getProject()).publicKey).toBe(newKeyPair.publicKey);
+    expect(
+      await sdk.keyCustody!.decrypt(
+        await encryptWithPublicKey({
+          publicKey: newKeyPair.publicKey,
+          data: "probe",
+        }),
+      ),
+    ).toBe("probe");
+  });
+
+  it("swaps the master seed of derived wallets", async () => {
+    const { sdk, backend } = await setup();
+    const derived = await sdk.wallet.createWallet({
+      derived: true,
+    });
+    const masterSeed = await sdk.wallet.exportMasterSeed();
+    const address = await (
+      await sdk.wallet.getWallet(derived.id, 0)
+    ).wallet.getChangeAddress();
+
+    const { state } = await new ProjectKeyRotation({ sdk }).run();
+
+    expect(state.verified).toHaveLength(3);
+    expect(backend.stagedMasterSeed).toBeUndefined();
+    expect(await sdk.wallet.exportMasterSeed()).toEqual(masterSeed);
+    expect(
+      await (
+        await sdk.wallet.getWallet(derived.id, 0)
+      ).wallet.getChangeAddress(),
+    ).toBe(address);
+  });
+});
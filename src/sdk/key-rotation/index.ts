@@ -0,0 +1,325 @@
+import { Web3Sdk } from "..";
+import {
+  decryptWithPrivateKey,
+  encryptWithPublicKey,
+  generateKeyPair,
+} from "../../functions";
+import { Web3Project } from "../../types";
+import { Web3SdkNotFoundError } from "../errors";
+import { toPublicProject } from "../project";
+import { KeyCustody } from "../key-custody";
+
+export type KeyRotationPhase = "reencrypt" | "verify" | "commit" | "done";
+
+/**
+ * Progress of one rotation, keyed by the new public key. Only wallet IDs are kept, never keys.
+ */
+export type KeyRotationState = {
+  publicKey: string;
+  phase: KeyRotationPhase;
+  /** Wallets whose key was re-encrypted and staged under the new public key. */
+  staged: string[];
+  /** Wallets whose staged key was decrypted with the new private key and matched. */
+  verified: string[];
+  startedAt: string;
+  completedAt: string | null;
+};
+
+/**
+ * Keeps rotation progress so an interrupted rotation resumes where it stopped.
+ */
+export interface KeyRotationStore {
+  load(
+    publicKey: string,
+  ): KeyRotationState | undefined | Promise<KeyRotationState | undefined>;
+  save(state: KeyRotationState): void | Promise<void>;
+}
+
+export class MemoryKeyRotationStore implements KeyRotationStore {
+  private readonly states = new Map<string, KeyRotationState>();
+
+  load(publicKey: string) {
+    const state = this.states.get(publicKey);
+    return state && structuredClone(state);
+  }
+
+  save(state: KeyRotationState) {
+    this.states.set(state.publicKey, structuredClone(state));
+  }
+}
+
+export type KeyRotationProgress = {
+  phase: KeyRotationPhase;
+  walletId?: string;
+  /** Wallets completed in the current phase, including those completed before a resume. */
+  processed: number;
+};
+
+export type KeyRotationResult = {
+  publicKey: string;
+  privateKey: string;
+  state: KeyRotationState;
+};
+
+export class KeyRotationVerificationError extends Error {
+  /** The wallet whose key did not match, `undefined` for the project master seed. */
+  readonly walletId: string | undefined;
+
+  constructor(walletId: string | undefined) {
+    super(
+      walletId === undefined
+        ? "Re-encrypted master seed does not match the original"
+        : `Re-encrypted key of wallet ${walletId} does not match the original`,
+    );
+    this.name = "KeyRotationVerificationError";
+    this.walletId = walletId;
+  }
+}
+
+/**
+ * The `ProjectKeyRotation` class replaces the project key pair that encrypts developer wallet keys.
+ *
+ * Each wallet key is decrypted with the current private key, re-encrypted under the new public key and staged
+ * next to the current key. Once every staged key has been verified with the new private key, the backend swaps
+ * all wallet keys and `project.publicKey` in one step, so wallets are never left encrypted under a key nobody holds.
+ * If the swap is refused because wallets were created meanwhile, run the rotation again to stage them.
+ *
+ * The project master seed is staged and swapped the same way. Derived wallets store no key and need no staging.
+ */
+export class ProjectKeyRotation {
+  private readonly sdk: Web3Sdk;
+  private readonly store: KeyRotationStore;
+
+  constructor({ sdk, store }: { sdk: Web3Sdk; store?: KeyRotationStore }) {
+    this.sdk = sdk;
+    this.store = store ?? new MemoryKeyRotationStore();
+  }
+
+  /**
+   * Runs or resumes a rotation. Save the new key pair before calling this, so a crashed rotation can be resumed
+   * with it; without it the staged keys are lost and the rotation has to start over with a new pair.
+   *
+   * @param options.newKeyPair - The new key pair, defaults to a fresh pair from `generateKeyPair`.
+   * @param options.onProgress - Called after every wallet of every phase.
+   * @returns The new key pair and the final rotation state. The SDK's key custody is switched to the new private key.
+   *
+   * @throws {KeyRotationVerificationError} If a staged key does not decrypt to the original key.
+   * @throws {Web3SdkError} If a backend request fails, including a refused swap.
+   */
+  async run({
+    newKeyPair,
+    onProgress,
+  }: {
+    newKeyPair?: { publicKey: string; privateKey: string };
+    onProgress?: (progress: KeyRotationProgress) => void;
+  } = {}): Promise<KeyRotationResult> {
+    const keyCustody = this.sdk.keyCustody;
+    if (keyCustody === undefined) {
+      throw new Error("Private key not found");
+    }
+    // checked up front, a custody that cannot take the new key would strand the project after the swap
+    if (keyCustody.replaceKey === undefined) {
+      throw new Error("Key custody does not support replacing its key");
+    }
+
+    const { publicKey, privateKey } = newKeyPair ?? (await generateKeyPair());
+    const state: KeyRotationState = (await this.store.load(publicKey)) ?? {
+      publicKey,
+      phase: "reencrypt",
+      staged: [],
+      verified: [],
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+    };
+
+    if (state.phase === "done") {
+      return { publicKey, privateKey, state };
+    }
+    if (state.phase === "commit") {
+      // the swap may have gone through before the custody took the new key, it cannot be staged again then
+      const project = await this.sdk.getProjectAdmin();
+      if (project.publicKey === publicKey) {
+        return this.finish(state, project, privateKey, keyCustody, onProgress);
+      }
+    }
+
+    // a rejected swap sends the rotation back here, to stage wallets created in the meantime
+    state.phase = "reencrypt";
+    // a single key, so it is staged again on every run instead of tracking it in the state
+    const masterSeed = await this.getEncryptedMasterSeed();
+    if (masterSeed !== undefined) {
+      const key = await keyCustody.decrypt(masterSeed);
+      await this.sdk.auditLog?.record({
+        action: "decrypt",
+        context: { operation: "key-rotation" },
+      });
+      await this.sdk.transport.put(this.stagedMasterSeedRoute(), {
+        publicKey,
+        key: await encryptWithPublicKey({ publicKey, data: key }),
+      });
+    }
+
+    const staged = new Set(state.staged);
+    for await (const wallet of this.sdk.wallet.iterateWallets({
+      includeArchived: true,
+    })) {
+      if (wallet.keyType === "derived") continue;
+      if (!staged.has(wallet.id)) {
+        const key = await keyCustody.decrypt(wallet.key);
+        await this.sdk.auditLog?.record({
+          action: "decrypt",
+          walletId: wallet.id,
+          context: { operation: "key-rotation" },
+        });
+        await this.sdk.transport.put(this.stagedKeyRoute(wallet.id), {
+          publicKey,
+          key: await encryptWithPublicKey({ publicKey, data: key }),
+        });
+
+        staged.add(wallet.id);
+        state.staged.push(wallet.id);
+        await this.store.save(state);
+      }
+      onProgress?.({
+        phase: "reencrypt",
+        walletId: wallet.id,
+        processed: staged.size,
+      });
+    }
+
+    state.phase = "verify";
+    await this.store.save(state);
+    if (masterSeed !== undefined) {
+      await this.verifyKey(
+        undefined,
+        this.stagedMasterSeedRoute(),
+        masterSeed,
+        publicKey,
+        privateKey,
+        keyCustody,
+      );
+    }
+    const verified = new Set(state.verified);
+    for (const walletId of [...state.staged]) {
+      if (!verified.has(walletId)) {
+        try {
+          await this.verifyWallet(walletId, publicKey, privateKey, keyCustody);
+        } catch (error) {
+          if (!(error instanceof Web3SdkNotFoundError)) throw error;
+          // the wallet was deleted after it was staged
+          state.staged = state.staged.filter((id) => id !== walletId);
+          await this.store.save(state);
+          continue;
+        }
+
+        verified.add(walletId);
+        state.verified.push(walletId);
+        await this.store.save(state);
+      }
+      onProgress?.({ phase: "verify", walletId, processed: verified.size });
+    }
+
+    state.phase = "commit";
+    await this.store.save(state);
+    const { data } = await this.sdk.transport.post(
+      `api/project/${this.sdk.projectId}/key-rotation/commit`,
+      { publicKey },
+    );
+
+    return this.finish(
+      state,
+      data as Web3Project,
+      privateKey,
+      keyCustody,
+      onProgress,
+    );
+  }
+
+  private async finish(
+    state: KeyRotationState,
+    project: Web3Project,
+    privateKey: string,
+    keyCustody: KeyCustody,
+    onProgress?: (progress: KeyRotationProgress) => void,
+  ): Promise<KeyRotationResult> {
+    await keyCustody.replaceKey!(privateKey);
+    this.sdk.project = toPublicProject(project);
+
+    state.phase = "done";
+    state.completedAt = new Date().toISOString();
+    await this.store.save(state);
+    onProgress?.({ phase: "done", processed: state.verified.length });
+
+    return { publicKey: state.publicKey, privateKey, state };
+  }
+
+  private stagedKeyRoute(walletId: string) {
+    return `api/project/${this.sdk.projectId}/key-rotation/wallet/${walletId}`;
+  }
+
+  private stagedMasterSeedRoute() {
+    return `api/project/${this.sdk.projectId}/key-rotation/master-seed`;
+  }
+
+  private async getEncryptedMasterSeed(): Promise<string | undefined> {
+    try {
+      const { data } = await this.sdk.transport.get(
+        `api/project/${this.sdk.projectId}/master-seed`,
+      );
+      return (data as { key: string }).key;
+    } catch (error) {
+      if (error instanceof Web3SdkNotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  private async verifyWallet(
+    walletId: string,
+    publicKey: string,
+    privateKey: string,
+    keyCustody: KeyCustody,
+  ) {
+    const wallet = await this.sdk.wallet.getWalletInfo(walletId);
+    await this.verifyKey(
+      walletId,
+      this.stagedKeyRoute(walletId),
+      wallet.key,
+      publicKey,
+      privateKey,
+      keyCustody,
+    );
+  }
+
+  private async verifyKey(
+    walletId: string | undefined,
+    stagedRoute: string,
+    encryptedKey: string,
+    publicKey: string,
+    privateKey: string,
+    keyCustody: KeyCustody,
+  ) {
+    const { data: stagedKey } = await this.sdk.transport.get(stagedRoute);
+
+    if (stagedKey.publicKey !== publicKey) {
+      throw new KeyRotationVerificationError(walletId);
+    }
+
+    const [original, reencrypted] = await Promise.all([
+      keyCustody.decrypt(encryptedKey),
+      decryptWithPrivateKey({
+        privateKey,
+        encryptedDataJSON: stagedKey.key,
+      }).catch(() => undefined),
+    ]);
+
+    await this.sdk.auditLog?.record({
+      action: "decrypt",
+      walletId,
+      context: { operation: "key-rotation" },
+    });
+
+    if (reencrypted !== original) {
+      throw new KeyRotationVerificationError(walletId);
+    }
+  }
+}
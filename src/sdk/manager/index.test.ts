@@ -0,0 +1,102 @@
+import { Web3SdkManager, Web3SdkProjectConfig } from ".";
+import { KeyCustody } from "../key-custody";
+
+function projectConfig(projectId: string): Web3SdkProjectConfig {
+  return {
+    projectId,
+    apiKey: `${projectId}-api-key`,
+    network: "testnet",
+    privateKey: `${projectId}-private-key`,
+  };
+}
+
+describe("Web3SdkManager", () => {
+  it("creates one instance per project and reuses it", async () => {
+    const resolveProject = jest.fn(projectConfig);
+    const manager = new Web3SdkManager({ resolveProject });
+
+    const [a, b] = await Promise.all([manager.get("a"), manager.get("a")]);
+    expect(a).toBe(b);
+    expect(a.apiKey).toBe("a-api-key");
+    expect(resolveProject).toHaveBeenCalledTimes(1);
+
+    expect(await manager.wallet("a")).toBe(a.wallet);
+    expect(await manager.sponsorship("a")).toBe(a.sponsorship);
+  });
+
+  it("evicts the least recently used project and drops its key", async () => {
+    const manager = new Web3SdkManager({
+      resolveProject: projectConfig,
+      maxProjects: 2,
+    });
+
+    const a = await manager.get("a");
+    await manager.get("b");
+    await manager.get("a");
+    await manager.get("c");
+
+    expect(manager.has("a")).toBe(true);
+    expect(manager.has("b")).toBe(false);
+    expect(manager.has("c")).toBe(true);
+    expect(manager.size).toBe(2);
+
+    await manager.evict("a");
+    expect(manager.has("a")).toBe(false);
+    expect(a.keyCustody).toBeUndefined();
+  });
+
+  it("releases the key of an evicted project once running decryptions finish", async () => {
+    let finishDecrypt!: (secret: string) => void;
+    const decrypted = new Promise<string>(
+      (resolve) => (finishDecrypt = resolve),
+    );
+    const keyCustody: KeyCustody = {
+      decrypt: () => decrypted,
+      dispose: jest.fn(),
+    };
+    const manager = new Web3SdkManager({
+      resolveProject: (projectId) => ({
+        ...projectConfig(projectId),
+        keyCustody,
+      }),
+    });
+
+    const a = await manager.get("a");
+    const secret = a.useKeyCustody((custody) => custody.decrypt("key"));
+    const evicted = manager.evict("a");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await expect(
+      a.useKeyCustody((custody) => custody.decrypt("key")),
+    ).rejects.toThrow("Private key not found");
+    expect(keyCustody.dispose).not.toHaveBeenCalled();
+
+    finishDecrypt("secret");
+    await expect(secret).resolves.toBe("secret");
+    await evicted;
+    expect(keyCustody.dispose).toHaveBeenCalledTimes(1);
+  });
+
+  it("shares one transport between projects", async () => {
+    const manager = new Web3SdkManager({ resolveProject: projectConfig });
+
+    const a = await manager.get("a");
+    const b = await manager.get("b");
+    expect(a.transport.transport).toBe(manager.transport);
+    expect(b.transport.transport).toBe(manager.transport);
+    expect(a.axiosInstance).toBeUndefined();
+  });
+
+  it("does not cache failed lookups", async () => {
+    const resolveProject = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("vault unavailable"))
+      .mockImplementation(projectConfig);
+    const manager = new Web3SdkManager({ resolveProject });
+
+    await expect(manager.get("a")).rejects.toThrow("vault unavailable");
+    expect(manager.has("a")).toBe(false);
+
+    expect((await manager.get("a")).projectId).toBe("a");
+  });
+});
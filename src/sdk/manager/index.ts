@@ -0,0 +1,199 @@
+import axios from "axios";
+import { IFetcher, ISubmitter } from "@meshsdk/common";
+import { IBitcoinProvider } from "@meshsdk/bitcoin";
+import { Web3Sdk } from "..";
+import {
+  AxiosTransport,
+  Web3SdkRetryPolicy,
+  Web3SdkTransport,
+} from "../transport";
+import { Web3SdkEvent } from "../instrumentation";
+import { Web3NetworkName, Web3NetworkProfile } from "../network";
+import { KeyCustody } from "../key-custody";
+import { SpendingLedger, SpendingPolicy } from "../spending-policy";
+import { AuditLog } from "../audit-log";
+
+export type Web3SdkProjectConfig = {
+  projectId: string;
+  apiKey: string;
+  network: Web3NetworkName | Web3NetworkProfile;
+  privateKey?: string;
+  keyCustody?: KeyCustody;
+  signingKey?: string;
+  fetcher?: IFetcher;
+  submitter?: ISubmitter;
+  bitcoinProvider?: IBitcoinProvider;
+  spendingPolicies?: SpendingPolicy[];
+  spendingLedger?: SpendingLedger;
+  auditLog?: AuditLog;
+};
+
+export type Web3SdkManagerOptions = {
+  /** Looks up the credentials of a project, called once per project until it is evicted. */
+  resolveProject: (
+    projectId: string,
+  ) => Web3SdkProjectConfig | Promise<Web3SdkProjectConfig>;
+  appUrl?: string;
+  /** Maximum number of SDK instances kept alive, the least recently used project is evicted first. */
+  maxProjects?: number;
+  /** Transport shared by all projects. Defaults to one axios instance, so connections are pooled across projects. */
+  transport?: Web3SdkTransport;
+  retry?: Partial<Web3SdkRetryPolicy> | false;
+  /** Default providers for projects that do not bring their own. */
+  fetcher?: IFetcher;
+  submitter?: ISubmitter;
+  bitcoinProvider?: IBitcoinProvider;
+  onEvent?: (event: Web3SdkEvent, projectId: string) => void;
+  preflightCredits?: boolean;
+  deriveWallets?: boolean;
+};
+
+const DEFAULT_MAX_PROJECTS = 100;
+
+/**
+ * The `Web3SdkManager` serves many UTXOS projects from one process.
+ * It lazily creates one `Web3Sdk` per project with that project's credentials, keeps at most `maxProjects`
+ * of them in an LRU cache, and disposes the key material of evicted projects.
+ *
+ * All instances share a single transport, the project API key is sent per request.
+ */
+export class Web3SdkManager {
+  readonly appUrl: string;
+  readonly maxProjects: number;
+  readonly transport: Web3SdkTransport;
+
+  private readonly options: Web3SdkManagerOptions;
+  // insertion order doubles as recency order, the first entry is the least recently used
+  private readonly instances = new Map<string, Promise<Web3Sdk>>();
+
+  constructor(options: Web3SdkManagerOptions) {
+    this.options = options;
+    this.appUrl = options.appUrl ? options.appUrl : "https://utxos.dev/";
+    this.maxProjects = options.maxProjects ?? DEFAULT_MAX_PROJECTS;
+    this.transport =
+      options.transport ??
+      new AxiosTransport(axios.create({ baseURL: this.appUrl }));
+
+    if (this.maxProjects < 1) {
+      throw new Error("maxProjects must be at least 1");
+    }
+  }
+
+  /**
+   * Returns the SDK instance of a project, creating it on first use.
+   *
+   * @param projectId - The project to get the SDK for.
+   * @returns A promise that resolves to the project's `Web3Sdk`.
+   */
+  async get(projectId: string): Promise<Web3Sdk> {
+    let instance = this.instances.get(projectId);
+
+    if (instance) {
+      this.instances.delete(projectId);
+    } else {
+      instance = this.create(projectId);
+      instance.catch(() => {
+        if (this.instances.get(projectId) === instance) {
+          this.instances.delete(projectId);
+        }
+      });
+    }
+
+    this.instances.set(projectId, instance);
+    this.evictOverflow();
+
+    return instance;
+  }
+
+  /**
+   * Developer-controlled wallets of a project.
+   */
+  async wallet(projectId: string) {
+    return (await this.get(projectId)).wallet;
+  }
+
+  /**
+   * Transaction sponsorship of a project.
+   */
+  async sponsorship(projectId: string) {
+    return (await this.get(projectId)).sponsorship;
+  }
+
+  has(projectId: string) {
+    return this.instances.has(projectId);
+  }
+
+  get size() {
+    return this.instances.size;
+  }
+
+  /**
+   * Removes a project from the cache and disposes its key material once the decryptions already running
+   * for it have finished. The next `get` for this project resolves its credentials again.
+   */
+  async evict(projectId: string) {
+    const instance = this.instances.get(projectId);
+    if (instance === undefined) return;
+
+    this.instances.delete(projectId);
+    await disposeInstance(instance);
+  }
+
+  /**
+   * Evicts every project.
+   */
+  async clear() {
+    const instances = [...this.instances.values()];
+    this.instances.clear();
+    await Promise.all(instances.map(disposeInstance));
+  }
+
+  private async create(projectId: string) {
+    const config = await this.options.resolveProject(projectId);
+
+    if (config.projectId !== projectId) {
+      throw new Error(
+        `Resolved project ${config.projectId} does not match ${projectId}`,
+      );
+    }
+
+    const onEvent = this.options.onEvent;
+
+    return new Web3Sdk({
+      appUrl: this.appUrl,
+      projectId: config.projectId,
+      apiKey: config.apiKey,
+      network: config.network,
+      privateKey: config.privateKey,
+      keyCustody: config.keyCustody,
+      signingKey: config.signingKey,
+      fetcher: config.fetcher ?? this.options.fetcher,
+      submitter: config.submitter ?? this.options.submitter,
+      bitcoinProvider: config.bitcoinProvider ?? this.options.bitcoinProvider,
+      transport: this.transport,
+      retry: this.options.retry,
+      onEvent: onEvent ? (event) => onEvent(event, projectId) : undefined,
+      preflightCredits: this.options.preflightCredits,
+      deriveWallets: this.options.deriveWallets,
+      spendingPolicies: config.spendingPolicies,
+      spendingLedger: config.spendingLedger,
+      auditLog: config.auditLog,
+    });
+  }
+
+  private evictOverflow() {
+    while (this.instances.size > this.maxProjects) {
+      const [projectId, instance] = this.instances.entries().next().value!;
+      this.instances.delete(projectId);
+      void disposeInstance(instance);
+    }
+  }
+}
+
+async function disposeInstance(instance: Promise<Web3Sdk>) {
+  try {
+    await (await instance).dispose();
+  } catch {
+    // creation failed, there is nothing to dispose
+  }
+}
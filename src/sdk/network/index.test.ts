@@ -0,0 +1,62 @@
+import { Web3Sdk } from "..";
+import {
+  defineNetworkProfile,
+  getProfileBitcoinAddress,
+  getProfileCardanoAddress,
+  getProfileSparkAddress,
+  meshUniversalStaticUtxo,
+  resolveNetworkProfile,
+} from ".";
+
+const publicKey =
+  "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798";
+const pubKeyHash = "e12a4d1a014bbaa0abe177b57c426f5247d5f1a649df5e570f214a0d";
+
+describe("network profiles", () => {
+  it("resolves addresses from the profile", () => {
+    const mainnet = resolveNetworkProfile("mainnet");
+    const signet = resolveNetworkProfile("signet");
+    const devnet = resolveNetworkProfile("devnet");
+
+    expect(getProfileCardanoAddress(mainnet, pubKeyHash, pubKeyHash)).toMatch(
+      /^addr1/,
+    );
+    expect(getProfileCardanoAddress(devnet, pubKeyHash, pubKeyHash)).toMatch(
+      /^addr_test1/,
+    );
+
+    expect(getProfileBitcoinAddress(mainnet, publicKey)).toMatch(/^bc1q/);
+    expect(getProfileBitcoinAddress(signet, publicKey)).toMatch(/^tb1q/);
+    expect(getProfileBitcoinAddress(devnet, publicKey)).toMatch(/^bcrt1q/);
+
+    expect(getProfileSparkAddress(mainnet, publicKey)).toMatch(/^spark1/);
+    expect(getProfileSparkAddress(devnet, publicKey)).toMatch(/^sparkrt1/);
+
+    expect(() => resolveNetworkProfile("sanchonet" as "mainnet")).toThrow(
+      "Unknown network: sanchonet",
+    );
+  });
+
+  it("resolves static sponsor UTxOs from the profile", () => {
+    const sdk = (
+      network: ConstructorParameters<typeof Web3Sdk>[0]["network"],
+    ) => new Web3Sdk({ projectId: "p", apiKey: "k", network });
+
+    expect(sdk("testnet").sponsorship.getStaticInfo().utxo).toEqual(
+      meshUniversalStaticUtxo.testnet["5"],
+    );
+    expect(sdk("preprod").network).toBe("preprod");
+    expect(() => sdk("preview").sponsorship.getStaticInfo()).toThrow(
+      "Network preview has no static sponsor UTxOs",
+    );
+
+    const local = defineNetworkProfile("devnet", {
+      name: "local",
+      cardano: { staticUtxos: meshUniversalStaticUtxo.testnet },
+    });
+    expect(local.bitcoin.network).toBe("regtest");
+    expect(sdk(local).sponsorship.getStaticInfo("99").utxo).toEqual(
+      meshUniversalStaticUtxo.testnet["99"],
+    );
+  });
+});
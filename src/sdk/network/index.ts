@@ -0,0 +1,322 @@
+import { UTxO } from "@meshsdk/common";
+import { resolveAddress } from "@meshsdk/bitcoin";
+import { keyHashToRewardAddress } from "@meshsdk/core-cst";
+import { getCardanoAddressFromPubkey } from "../../chains/cardano";
+import { getSparkAddressFromPubkey } from "../../chains/spark/utils";
+import type { ValidSparkNetwork } from "../../chains/spark/wallet";
+
+export const meshUniversalStaticUtxo = {
+  mainnet: {
+    "5": {
+      input: {
+        outputIndex: 0,
+        txHash:
+          "89e9888acc50ec7cc840f3e44ea06d8db1461dd1ba37218e914fcd171d83e4b8",
+      },
+      output: {
+        address:
+          "addr1q8sj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457qh5366a",
+        amount: [
+          {
+            unit: "lovelace",
+            quantity: "5000000",
+          },
+        ],
+      },
+    },
+    "99": {
+      input: {
+        outputIndex: 0,
+        txHash:
+          "cb058a1402fcbcd98be15de8c44ea1a44211119050e8028d3c81878158a5d29d",
+      },
+      output: {
+        address:
+          "addr1q8sj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457qh5366a",
+        amount: [
+          {
+            unit: "lovelace",
+            quantity: "99000000",
+          },
+        ],
+      },
+    },
+  },
+  testnet: {
+    "5": {
+      input: {
+        outputIndex: 0,
+        txHash:
+          "5a1edf7da58eff2059030abd456947a96cb2d16b9d8c3822ffff58d167ed8bfc",
+      },
+      output: {
+        address:
+          "addr_test1qrsj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457q5zv6kz",
+        amount: [
+          {
+            unit: "lovelace",
+            quantity: "5000000",
+          },
+        ],
+      },
+    },
+    "99": {
+      input: {
+        outputIndex: 0,
+        txHash:
+          "8222b0327a95e8c357016a5df64d93d7cf8a585a07c55327ae618a7e00d58d9e",
+      },
+      output: {
+        address:
+          "addr_test1qrsj3xj6q99m4g9tu9mm2lzzdafy04035eya7hjhpus55r204nlu6dmhgpruq7df228h9gpujt0mtnfcnkcaj3wj457q5zv6kz",
+        amount: [
+          {
+            unit: "lovelace",
+            quantity: "99000000",
+          },
+        ],
+      },
+    },
+  },
+};
+
+export type Web3NetworkName =
+  | "mainnet"
+  | "testnet"
+  | "preprod"
+  | "preview"
+  | "signet"
+  | "devnet";
+
+/** The static sponsor UTxOs by lovelace amount, used as placeholders while a transaction is sponsored. */
+export type Web3SponsorStaticUtxos = { "5": UTxO; "99": UTxO };
+
+/**
+ * Everything that differs between networks, per chain. `Web3Sdk` resolves network IDs, address prefixes
+ * and static sponsor UTxOs from one profile, so a profile is all it takes to target another network.
+ */
+export type Web3NetworkProfile = {
+  name: string;
+  /** The network the UTXOS backend is asked to use, e.g. by `api/sponsorship/tx-parser`. */
+  apiNetwork: "mainnet" | "testnet";
+  cardano: {
+    network: "mainnet" | "preprod" | "preview" | "devnet";
+    networkId: 0 | 1;
+    protocolMagic: number;
+    addressPrefix: "addr" | "addr_test";
+    stakeAddressPrefix: "stake" | "stake_test";
+    /** `null` when the network has no static sponsor UTxOs, sponsorship is then unavailable. */
+    staticUtxos: Web3SponsorStaticUtxos | null;
+  };
+  bitcoin: {
+    network: "mainnet" | "testnet" | "signet" | "regtest";
+    /** The network passed to `EmbeddedWallet`, signet keys and addresses are the same as testnet. */
+    walletNetwork: "Mainnet" | "Testnet" | "Regtest";
+    bech32Prefix: "bc" | "tb" | "bcrt";
+  };
+  spark: {
+    network: ValidSparkNetwork;
+    addressPrefix: "spark" | "sparkrt";
+  };
+};
+
+const CARDANO_MAINNET: Web3NetworkProfile["cardano"] = {
+  network: "mainnet",
+  networkId: 1,
+  protocolMagic: 764824073,
+  addressPrefix: "addr",
+  stakeAddressPrefix: "stake",
+  staticUtxos: meshUniversalStaticUtxo.mainnet,
+};
+
+const CARDANO_PREPROD: Web3NetworkProfile["cardano"] = {
+  network: "preprod",
+  networkId: 0,
+  protocolMagic: 1,
+  addressPrefix: "addr_test",
+  stakeAddressPrefix: "stake_test",
+  staticUtxos: meshUniversalStaticUtxo.testnet,
+};
+
+const BITCOIN_TESTNET: Web3NetworkProfile["bitcoin"] = {
+  network: "testnet",
+  walletNetwork: "Testnet",
+  bech32Prefix: "tb",
+};
+
+const BITCOIN_REGTEST: Web3NetworkProfile["bitcoin"] = {
+  network: "regtest",
+  walletNetwork: "Regtest",
+  bech32Prefix: "bcrt",
+};
+
+const SPARK_REGTEST: Web3NetworkProfile["spark"] = {
+  network: "REGTEST",
+  addressPrefix: "sparkrt",
+};
+
+export const WEB3_NETWORK_PROFILES: Record<
+  Web3NetworkName,
+  Web3NetworkProfile
+> = {
+  mainnet: {
+    name: "mainnet",
+    apiNetwork: "mainnet",
+    cardano: CARDANO_MAINNET,
+    bitcoin: {
+      network: "mainnet",
+      walletNetwork: "Mainnet",
+      bech32Prefix: "bc",
+    },
+    spark: { network: "MAINNET", addressPrefix: "spark" },
+  },
+  // kept for existing configurations, same as preprod
+  testnet: {
+    name: "testnet",
+    apiNetwork: "testnet",
+    cardano: CARDANO_PREPROD,
+    bitcoin: BITCOIN_TESTNET,
+    spark: SPARK_REGTEST,
+  },
+  preprod: {
+    name: "preprod",
+    apiNetwork: "testnet",
+    cardano: CARDANO_PREPROD,
+    bitcoin: BITCOIN_TESTNET,
+    spark: SPARK_REGTEST,
+  },
+  preview: {
+    name: "preview",
+    apiNetwork: "testnet",
+    cardano: {
+      ...CARDANO_PREPROD,
+      network: "preview",
+      protocolMagic: 2,
+      staticUtxos: null,
+    },
+    bitcoin: BITCOIN_TESTNET,
+    spark: SPARK_REGTEST,
+  },
+  signet: {
+    name: "signet",
+    apiNetwork: "testnet",
+    cardano: CARDANO_PREPROD,
+    bitcoin: { ...BITCOIN_TESTNET, network: "signet" },
+    spark: SPARK_REGTEST,
+  },
+  devnet: {
+    name: "devnet",
+    apiNetwork: "testnet",
+    cardano: {
+      ...CARDANO_PREPROD,
+      network: "devnet",
+      protocolMagic: 42,
+      staticUtxos: null,
+    },
+    bitcoin: BITCOIN_REGTEST,
+    spark: SPARK_REGTEST,
+  },
+};
+
+/**
+ * Resolves a network name to its built-in profile, custom profiles are returned as is.
+ *
+ * @throws {Error} If the name is not a built-in network.
+ */
+export function resolveNetworkProfile(
+  network: Web3NetworkName | Web3NetworkProfile,
+): Web3NetworkProfile {
+  if (typeof network !== "string") {
+    return network;
+  }
+
+  const profile = WEB3_NETWORK_PROFILES[network];
+  if (profile === undefined) {
+    throw new Error(`Unknown network: ${network}`);
+  }
+  return profile;
+}
+
+/**
+ * Creates a custom profile from a built-in one, e.g. a local devnet with its own static sponsor UTxOs.
+ *
+ * @param base - The profile to start from.
+ * @param overrides - The fields to change, per chain.
+ */
+export function defineNetworkProfile(
+  base: Web3NetworkName | Web3NetworkProfile,
+  overrides: { name: string } & Partial<
+    Pick<Web3NetworkProfile, "apiNetwork">
+  > & {
+      cardano?: Partial<Web3NetworkProfile["cardano"]>;
+      bitcoin?: Partial<Web3NetworkProfile["bitcoin"]>;
+      spark?: Partial<Web3NetworkProfile["spark"]>;
+    },
+): Web3NetworkProfile {
+  const profile = resolveNetworkProfile(base);
+
+  return {
+    name: overrides.name,
+    apiNetwork: overrides.apiNetwork ?? profile.apiNetwork,
+    cardano: { ...profile.cardano, ...overrides.cardano },
+    bitcoin: { ...profile.bitcoin, ...overrides.bitcoin },
+    spark: { ...profile.spark, ...overrides.spark },
+  };
+}
+
+/**
+ * Returns the Cardano base address of a key pair on the profile's network.
+ */
+export function getProfileCardanoAddress(
+  profile: Web3NetworkProfile,
+  pubKeyHash: string,
+  stakeCredentialHash: string,
+): string {
+  return getCardanoAddressFromPubkey(
+    pubKeyHash,
+    stakeCredentialHash,
+    profile.cardano.networkId,
+  );
+}
+
+/**
+ * Returns the Cardano reward (stake) address of a stake key hash on the profile's network.
+ */
+export function getProfileCardanoRewardAddress(
+  profile: Web3NetworkProfile,
+  stakeCredentialHash: string,
+): string {
+  return keyHashToRewardAddress(stakeCredentialHash, profile.cardano.networkId);
+}
+
+/**
+ * Returns the Bitcoin P2WPKH address of a public key on the profile's network.
+ */
+export function getProfileBitcoinAddress(
+  profile: Web3NetworkProfile,
+  publicKey: string,
+): string {
+  if (profile.bitcoin.network === "mainnet") {
+    return resolveAddress(publicKey, "mainnet").address;
+  }
+
+  // testnet, signet and regtest share version bytes and only differ in the bech32 prefix
+  return resolveAddress(publicKey, {
+    messagePrefix: "\x18Bitcoin Signed Message:\n",
+    bech32: profile.bitcoin.bech32Prefix,
+    bip32: { public: 0x043587cf, private: 0x04358394 },
+    pubKeyHash: 0x6f,
+    scriptHash: 0xc4,
+    wif: 0xef,
+  }).address;
+}
+
+/**
+ * Returns the Spark address of an identity public key on the profile's network.
+ */
+export function getProfileSparkAddress(
+  profile: Web3NetworkProfile,
+  identityPublicKey: string,
+): string {
+  return getSparkAddressFromPubkey(identityPublicKey, profile.spark.network);
+}
@@ -0,0 +1,305 @@
+import { UTxO } from "@meshsdk/common";
+import { deserializeTx, resolveTxHash } from "@meshsdk/core-cst";
+import { getProfileCardanoAddress } from "../network";
+import {
+  mockFetcher,
+  mockSdk,
+  mockSubmitter,
+} from "../transport/mock-fixtures";
+import { MemoryPayoutStore, Payment, PayoutError, WalletPayouts } from ".";
+
+describe("WalletPayouts", () => {
+  async function setup() {
+    // a chain that accepts transactions whose inputs are unspent, confirms them unless `mempool` is set,
+    // and can lose the response to an accepted submission
+    const chain = {
+      utxos: [] as UTxO[],
+      mempoolUtxos: [] as UTxO[],
+      accepted: new Set<string>(),
+      confirmed: new Set<string>(),
+      mempool: false,
+      submissions: 0,
+      dropResponses: [] as number[],
+      failSubmissions: [] as number[],
+    };
+    const fetcher = mockFetcher({
+      fetchAddressUTxOs: async () => chain.utxos,
+      fetchTxInfo: async (hash: string) => {
+        if (!chain.confirmed.has(hash)) throw new Error("Not found");
+        return {
+          index: 0,
+          block: "",
+          hash,
+          slot: "0",
+          fees: "0",
+          size: 0,
+          deposit: "0",
+          invalidBefore: "",
+          invalidAfter: "",
+          inputs: [],
+          outputs: [],
+        };
+      },
+    });
+    const submitter = mockSubmitter({
+      submitTx: async (tx: string) => {
+        const submission = chain.submissions++;
+        if (chain.failSubmissions.includes(submission)) {
+          throw new Error("Node unavailable");
+        }
+        const unspent = new Set(chain.mempoolUtxos.map(utxoKey));
+        const { inputs } = deserializeTx(tx).toCore().body;
+        if (
+          !inputs.every((input) => unspent.has(`${input.txId}#${input.index}`))
+        ) {
+          throw new Error("BadInputsUTxO");
+        }
+        const hash = resolveTxHash(tx);
+        chain.accepted.add(hash);
+        chain.mempoolUtxos = spend(chain.mempoolUtxos, tx);
+        if (!chain.mempool) {
+          chain.confirmed.add(hash);
+          chain.utxos = spend(chain.utxos, tx);
+        }
+        if (chain.dropResponses.includes(submission)) {
+          throw new Error("Connection reset");
+        }
+        return hash;
+      },
+    });
+
+    const { sdk } = await mockSdk({ fetcher, submitter });
+
+    const wallet = await sdk.wallet.createWallet();
+    const address = getProfileCardanoAddress(
+      sdk.networkProfile,
+      wallet.pubKeyHash,
+      wallet.stakeCredentialHash,
+    );
+    // a single UTxO, so every batch after the first has to spend the change of the one before
+    chain.utxos = [
+      {
+        input: { txHash: "00".repeat(32), outputIndex: 0 },
+        output: {
+          address,
+          amount: [{ unit: "lovelace", quantity: "1000000000" }],
+        },
+      },
+    ];
+    chain.mempoolUtxos = chain.utxos;
+
+    const payments: Payment[] = Array.from({ length: 12 }, (_, i) => ({
+      id: `payment-${i}`,
+      address,
+      assets: [{ unit: "lovelace", quantity: `${2000000 + i}` }],
+    }));
+
+    // every output goes back to the wallet, payments included
+    const spend = (utxos: UTxO[], tx: string): UTxO[] => {
+      const { inputs, outputs } = deserializeTx(tx).toCore().body;
+      const spent = new Set(
+        inputs.map((input) => `${input.txId}#${input.index}`),
+      );
+      return [
+        ...utxos.filter((utxo) => !spent.has(utxoKey(utxo))),
+        ...outputs.map((output, outputIndex) => ({
+          input: { txHash: resolveTxHash(tx), outputIndex },
+          output: {
+            address,
+            amount: [
+              { unit: "lovelace", quantity: output.value.coins.toString() },
+            ],
+          },
+        })),
+      ];
+    };
+
+    return { sdk, wallet, chain, payments };
+  }
+
+  const utxoKey = (utxo: UTxO) =>
+    `${utxo.input.txHash}#${utxo.input.outputIndex}`;
+
+  it("packs payments into chained batches and resumes without paying twice", async () => {
+    const { sdk, wallet, chain, payments } = await setup();
+    const store = new MemoryPayoutStore();
+    const payouts = new WalletPayouts({ sdk, store });
+    const run = () =>
+      payouts.run({
+        payoutId: "payout-1",
+        walletId: wallet.id,
+        payments,
+        maxTxSize: 700,
+      });
+
+    // the response to the first batch is lost but it is found on chain, the second cannot be submitted
+    chain.dropResponses = [0];
+    chain.failSubmissions = [1];
+    await expect(run()).rejects.toThrow("Node unavailable");
+    const interrupted = (await store.load("payout-1"))!;
+    expect(interrupted.phase).toBe("submit");
+    expect(interrupted.batches.length).toBeGreaterThan(1);
+    expect(interrupted.batches.map((batch) => batch.submitted)).toEqual(
+      interrupted.batches.map((_, i) => i === 0),
+    );
+
+    const state = await run();
+    expect(state.phase).toBe("done");
+    expect(state.batches.map((batch) => batch.txHash)).toEqual(
+      interrupted.batches.map((batch) => batch.txHash),
+    );
+    expect(state.batches.flatMap((batch) => batch.paymentIds)).toEqual(
+      payments.map((payment) => payment.id),
+    );
+    expect(chain.accepted.size).toBe(state.batches.length);
+    expect(chain.submissions).toBe(state.batches.length + 1);
+
+    const [first, second] = state.batches;
+    const inputs = deserializeTx(second!.signedTx).toCore().body.inputs;
+    expect(inputs.some((input) => input.txId === first!.txHash)).toBe(true);
+
+    await expect(
+      payouts.run({
+        payoutId: "payout-1",
+        walletId: wallet.id,
+        payments: payments.slice(1),
+      }),
+    ).rejects.toThrow(PayoutError);
+  });
+
+  it("counts a batch found in the mempool as submitted once it is confirmed", async () => {
+    const { sdk, wallet, chain, payments } = await setup();
+    const store = new MemoryPayoutStore();
+    const payouts = new WalletPayouts({ sdk, store });
+    const run = () =>
+      payouts.run({
+        payoutId: "payout-1",
+        walletId: wallet.id,
+        payments,
+        maxTxSize: 700,
+      });
+
+    // the first batch waits in the mempool, where fetchTxInfo cannot find it
+    chain.mempool = true;
+    chain.dropResponses = [0];
+    await expect(run()).rejects.toThrow("Connection reset");
+    await expect(run()).rejects.toThrow("spent by a pending transaction");
+    expect(
+      (await store.load("payout-1"))!.batches.map((batch) => batch.submitted),
+    ).not.toContain(true);
+
+    chain.mempool = false;
+    chain.accepted.forEach((hash) => chain.confirmed.add(hash));
+    chain.utxos = chain.mempoolUtxos;
+    const state = await run();
+    expect(state.phase).toBe("done");
+    expect(chain.accepted.size).toBe(state.batches.length);
+  });
+
+  it("does not count a batch whose inputs another pending transaction spends as paid", async () => {
+    const { sdk, wallet, chain, payments } = await setup();
+    const store = new MemoryPayoutStore();
+    const payouts = new WalletPayouts({ sdk, store });
+    const run = (rebuild?: boolean) =>
+      payouts.run({
+        payoutId: "payout-1",
+        walletId: wallet.id,
+        payments,
+        maxTxSize: 700,
+        rebuild,
+      });
+
+    // a transaction of the wallet built elsewhere spends its only UTxO and waits in the mempool
+    const address = chain.utxos[0]!.output.address;
+    const foreign: UTxO = {
+      input: { txHash: "ff".repeat(32), outputIndex: 0 },
+      output: {
+        address,
+        amount: [{ unit: "lovelace", quantity: "900000000" }],
+      },
+    };
+    chain.mempoolUtxos = [foreign];
+    await expect(run()).rejects.toThrow("spent by a pending transaction");
+    const stuck = (await store.load("payout-1"))!;
+    expect(stuck.batches.map((batch) => batch.submitted)).not.toContain(true);
+    expect(chain.accepted.size).toBe(0);
+
+    // once it is confirmed, the payments are built again from its change
+    chain.utxos = [foreign];
+    const state = await run(true);
+    expect(state.phase).toBe("done");
+    expect(state.batches.map((batch) => batch.txHash)).not.toContain(
+      stuck.batches[0]!.txHash,
+    );
+    expect(state.batches.flatMap((batch) => batch.paymentIds).sort()).toEqual(
+      payments.map((payment) => payment.id).sort(),
+    );
+    expect(chain.accepted.size).toBe(state.batches.length);
+  });
+
+  it("rebuilds batches whose inputs were spent by another transaction", async () => {
+    const { sdk, wallet, chain, payments } = await setup();
+    const store = new MemoryPayoutStore();
+    const payouts = new WalletPayouts({ sdk, store });
+    const run = (rebuild?: boolean) =>
+      payouts.run({
+        payoutId: "payout-1",
+        walletId: wallet.id,
+        payments,
+        maxTxSize: 700,
+        rebuild,
+      });
+
+    chain.failSubmissions = [1];
+    await expect(run()).rejects.toThrow("Node unavailable");
+    const interrupted = (await store.load("payout-1"))!;
+    const [first, ...stuck] = interrupted.batches;
+
+    // another transaction of the wallet spends the inputs of the next batch
+    const spent = new Set(
+      deserializeTx(stuck[0]!.signedTx)
+        .toCore()
+        .body.inputs.map((input) => `${input.txId}#${input.index}`),
+    );
+    chain.utxos = [
+      ...chain.utxos.filter((utxo) => !spent.has(utxoKey(utxo))),
+      {
+        input: { txHash: "ff".repeat(32), outputIndex: 0 },
+        output: {
+          address: chain.utxos[0]!.output.address,
+          amount: [{ unit: "lovelace", quantity: "500000000" }],
+        },
+      },
+    ];
+    chain.mempoolUtxos = chain.utxos;
+
+    await expect(run()).rejects.toThrow(PayoutError);
+    const state = await run(true);
+    expect(state.phase).toBe("done");
+    expect(state.batches[0]).toEqual(first);
+    const rebuilt = state.batches.slice(1);
+    expect(rebuilt.map((batch) => batch.txHash)).not.toContain(
+      stuck[0]!.txHash,
+    );
+    expect(state.batches.flatMap((batch) => batch.paymentIds).sort()).toEqual(
+      payments.map((payment) => payment.id).sort(),
+    );
+    expect(chain.accepted.size).toBe(state.batches.length);
+  });
+
+  it("rejects payments below the minimum ADA before building anything", async () => {
+    const { sdk, wallet, chain, payments } = await setup();
+
+    await expect(
+      sdk.wallet.payouts.run({
+        payoutId: "payout-2",
+        walletId: wallet.id,
+        payments: [
+          payments[0]!,
+          { ...payments[1]!, assets: [{ unit: "lovelace", quantity: "1" }] },
+        ],
+      }),
+    ).rejects.toThrow("payment-1 of 1 lovelace is below the minimum");
+    expect(chain.submissions).toBe(0);
+  });
+});
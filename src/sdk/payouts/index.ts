@@ -0,0 +1,502 @@
+import { Web3Sdk } from "..";
+import { Asset, UTxO } from "@meshsdk/common";
+import { deserializeTx, resolveTxHash } from "@meshsdk/core-cst";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { bytesToHex, crypto } from "../../functions";
+import { AuditContext } from "../audit-log";
+import { getProfileCardanoAddress } from "../network";
+import { holdsCip68ReferenceToken } from "../wallet-developer-controlled/minting";
+import { estimateSignedTxSize } from "../wallet-developer-controlled/sweep";
+
+const DEFAULT_MAX_TX_SIZE = 16384;
+
+export type Payment = {
+  /** Unique within a payout, used to tell which payments a batch pays. */
+  id: string;
+  address: string;
+  /** Without `lovelace`, the output gets the minimum ADA it needs. */
+  assets: Asset[];
+};
+
+export type PayoutBatch = {
+  txHash: string;
+  paymentIds: string[];
+  fee: string;
+  /** Kept so an interrupted run resubmits this exact transaction instead of building a new one. */
+  signedTx: string;
+  submitted: boolean;
+};
+
+export type PayoutPhase = "build" | "submit" | "done";
+
+/**
+ * Progress of one payout, keyed by its ID. Every batch is signed and saved before the first one is submitted,
+ * so a resumed run only ever resubmits the same transactions and cannot pay anyone twice.
+ */
+export type PayoutState = {
+  payoutId: string;
+  walletId: string;
+  /** SHA-256 of the payment list, a resumed run must be given the same payments. */
+  paymentsHash: string;
+  phase: PayoutPhase;
+  batches: PayoutBatch[];
+  startedAt: string;
+  completedAt: string | null;
+};
+
+/**
+ * Keeps payout progress so an interrupted payout resumes where it stopped.
+ */
+export interface PayoutStore {
+  load(
+    payoutId: string,
+  ): PayoutState | undefined | Promise<PayoutState | undefined>;
+  save(state: PayoutState): void | Promise<void>;
+}
+
+export class MemoryPayoutStore implements PayoutStore {
+  private readonly states = new Map<string, PayoutState>();
+
+  load(payoutId: string) {
+    const state = this.states.get(payoutId);
+    return state && structuredClone(state);
+  }
+
+  save(state: PayoutState) {
+    this.states.set(state.payoutId, structuredClone(state));
+  }
+}
+
+export type PayoutProgress = {
+  phase: PayoutPhase;
+  /** Batches built or submitted in the current phase, including those completed before a resume. */
+  processed: number;
+  batches: number;
+};
+
+export class PayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutError";
+  }
+}
+
+/**
+ * The `WalletPayouts` class pays many recipients from one developer wallet.
+ *
+ * Payments are packed into as few transactions as the size limit allows. Each transaction spends the change of the
+ * one before, so the whole payout is built, signed through `getSigner` and saved before anything is submitted.
+ * Batches are then submitted in order with the SDK's `submitter`. Run the payout again with the same ID to resume it.
+ *
+ * `sdk.wallet.payouts` keeps progress in memory, create a `WalletPayouts` with your own store to resume a payout
+ * after a restart.
+ *
+ * ```ts
+ * const payouts = new WalletPayouts({ sdk, store });
+ * const state = await payouts.run({ payoutId: "2024-06", walletId, payments });
+ * ```
+ */
+export class WalletPayouts {
+  private readonly sdk: Web3Sdk;
+  private readonly store: PayoutStore;
+
+  constructor({ sdk, store }: { sdk: Web3Sdk; store?: PayoutStore }) {
+    this.sdk = sdk;
+    this.store = store ?? new MemoryPayoutStore();
+  }
+
+  /**
+   * Runs or resumes a payout.
+   *
+   * @param params.payoutId - Identifies the payout in the store.
+   * @param params.walletId - The developer wallet that pays.
+   * @param params.payments - The payments, in the order they are packed.
+   * @param params.maxTxSize - The size limit of a payout transaction, in bytes (default: 16384).
+   * @param params.rebuild - Builds the payments of batches whose inputs were spent by another transaction again,
+   * from the wallet's current UTxOs. Every submitted batch must be confirmed first.
+   * @param params.auditContext - Recorded with every signature in the SDK's audit log.
+   * @param params.onProgress - Called after every batch of every phase.
+   * @returns The final payout state, with the hash of every transaction.
+   *
+   * @throws {PayoutError} If a payment is invalid, the wallet cannot fund the payments, a resumed payout was given
+   * other payments, a batch can no longer be submitted and needs `rebuild`, or its inputs are spent by a pending
+   * transaction. A batch is only counted as submitted once the submitter accepts it or it is confirmed, run the payout
+   * again after the pending transaction is confirmed, with `rebuild` if it was not the batch.
+   * @throws Whatever the submitter throws for a transaction that was not accepted, the payout stops at that batch.
+   */
+  async run({
+    payoutId,
+    walletId,
+    payments,
+    maxTxSize = DEFAULT_MAX_TX_SIZE,
+    rebuild = false,
+    auditContext,
+    onProgress,
+  }: {
+    payoutId: string;
+    walletId: string;
+    payments: Payment[];
+    maxTxSize?: number;
+    rebuild?: boolean;
+    auditContext?: AuditContext;
+    onProgress?: (progress: PayoutProgress) => void;
+  }): Promise<PayoutState> {
+    const fetcher = this.sdk.providerFetcher;
+    const submitter = this.sdk.providerSubmitter;
+    if (fetcher === undefined || submitter === undefined) {
+      throw new Error("Fetcher and submitter are required for payouts");
+    }
+
+    validatePayments(payments);
+    const paymentsHash = await hashPayments(payments);
+    const state: PayoutState = (await this.store.load(payoutId)) ?? {
+      payoutId,
+      walletId,
+      paymentsHash,
+      phase: "build",
+      batches: [],
+      startedAt: new Date().toISOString(),
+      completedAt: null,
+    };
+    if (state.walletId !== walletId || state.paymentsHash !== paymentsHash) {
+      throw new PayoutError(
+        `Payout ${payoutId} was started with another wallet or other payments`,
+      );
+    }
+
+    const wallet = await this.sdk.wallet.getWalletInfo(walletId);
+    const address = getProfileCardanoAddress(
+      this.sdk.networkProfile,
+      wallet.pubKeyHash,
+      wallet.stakeCredentialHash,
+    );
+
+    let utxos: UTxO[] | undefined;
+    if (state.phase === "submit" && rebuild) {
+      utxos = await this.dropSpentBatches(state, address);
+      state.phase = "build";
+    }
+
+    if (state.phase === "build") {
+      const signer = await this.sdk.wallet.getSigner(walletId, {
+        auditContext,
+      });
+      const batched = new Set(
+        state.batches.flatMap((batch) => batch.paymentIds),
+      );
+      const batches = await packPayments(
+        payments.filter((payment) => !batched.has(payment.id)),
+        address,
+        utxos ?? (await fetcher.fetchAddressUTxOs(address)),
+        maxTxSize,
+      );
+      // nothing is saved until every batch is signed, an interrupted build starts over
+      for (const [i, batch] of batches.entries()) {
+        state.batches.push({
+          txHash: batch.txHash,
+          paymentIds: batch.paymentIds,
+          fee: batch.fee,
+          signedTx: await signer.cardano.signTx(batch.tx),
+          submitted: false,
+        });
+        onProgress?.({
+          phase: "build",
+          processed: i + 1,
+          batches: batches.length,
+        });
+      }
+
+      state.phase = "submit";
+      await this.store.save(state);
+    }
+
+    if (state.phase === "submit") {
+      for (const [i, batch] of state.batches.entries()) {
+        if (!batch.submitted) {
+          try {
+            await submitter.submitTx(batch.signedTx);
+          } catch (error) {
+            // a resubmitted transaction that was accepted before the interruption is rejected as spent
+            if (!(await this.isConfirmed(batch))) {
+              const pending = await this.hasUnspentInputs(
+                batch,
+                state.batches.slice(0, i),
+                address,
+              );
+              if (!pending) {
+                throw new PayoutError(
+                  `Batch ${batch.txHash} spends outputs spent by another transaction, run the payout with rebuild to pay ${batch.paymentIds.length} payments again`,
+                );
+              }
+              if (!isBadInputsError(error)) throw error;
+              // its inputs are unspent on chain, so a mempool transaction spends them, this batch or another one
+              throw new PayoutError(
+                `Batch ${batch.txHash} spends outputs spent by a pending transaction, run the payout again once it is confirmed`,
+              );
+            }
+          }
+          batch.submitted = true;
+          await this.store.save(state);
+        }
+        onProgress?.({
+          phase: "submit",
+          processed: i + 1,
+          batches: state.batches.length,
+        });
+      }
+
+      state.phase = "done";
+      state.completedAt = new Date().toISOString();
+      await this.store.save(state);
+    }
+
+    return state;
+  }
+
+  /**
+   * Drops the unsubmitted batches that can no longer be submitted, and every batch chained to them.
+   * Batches found on chain are marked submitted, the others that are still valid are kept and submitted as usual.
+   *
+   * @returns The wallet UTxOs left for new batches, after the kept batches.
+   */
+  private async dropSpentBatches(
+    state: PayoutState,
+    address: string,
+  ): Promise<UTxO[]> {
+    for (const batch of state.batches) {
+      // until then the chain does not show what the submitted batches spent
+      if (batch.submitted && !(await this.isConfirmed(batch))) {
+        throw new PayoutError(
+          `Batch ${batch.txHash} is not confirmed yet, rebuild the payout once it is`,
+        );
+      }
+    }
+
+    let available = await this.sdk.providerFetcher!.fetchAddressUTxOs(address);
+    const kept: PayoutBatch[] = [];
+    for (const batch of state.batches) {
+      if (batch.submitted) {
+        kept.push(batch);
+      } else if (await this.isConfirmed(batch)) {
+        batch.submitted = true;
+        kept.push(batch);
+      } else {
+        const unspent = new Set(available.map(utxoKey));
+        const { inputs } = deserializeTx(batch.signedTx).toCore().body;
+        if (inputs.every((input) => unspent.has(inputKey(input)))) {
+          available = spendUtxos(available, batch.signedTx, address);
+          kept.push(batch);
+        }
+      }
+    }
+
+    state.batches = kept;
+    return available;
+  }
+
+  private async isConfirmed(batch: PayoutBatch): Promise<boolean> {
+    // fetchTxInfo only finds confirmed transactions
+    return this.sdk
+      .providerFetcher!.fetchTxInfo(batch.txHash)
+      .then(() => true)
+      .catch(() => false);
+  }
+
+  /**
+   * Whether every input of a batch is unspent on chain, or is the change of an earlier batch that is not confirmed yet.
+   */
+  private async hasUnspentInputs(
+    batch: PayoutBatch,
+    earlier: PayoutBatch[],
+    address: string,
+  ): Promise<boolean> {
+    const unspent = new Set(
+      (await this.sdk.providerFetcher!.fetchAddressUTxOs(address)).map(utxoKey),
+    );
+    const { inputs } = deserializeTx(batch.signedTx).toCore().body;
+
+    for (const input of inputs) {
+      if (unspent.has(inputKey(input))) continue;
+      const parent = earlier.find((batch) => batch.txHash === input.txId);
+      // a confirmed parent whose output is gone had it spent on chain
+      if (parent === undefined || (await this.isConfirmed(parent))) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+type PackedBatch = {
+  tx: string;
+  txHash: string;
+  paymentIds: string[];
+  fee: string;
+};
+
+/**
+ * Packs payments into chained transactions: each batch takes payments while the signed transaction stays within
+ * `maxTxSize` and the wallet can fund them, and the change of a batch is available to the next.
+ * UTxOs holding CIP-68 reference tokens are never spent.
+ *
+ * The size of a batch is found by doubling the number of payments until a transaction does not fit, then bisecting,
+ * so building a batch of `n` payments takes about `2 log n` transactions instead of `n`.
+ */
+async function packPayments(
+  payments: Payment[],
+  address: string,
+  utxos: UTxO[],
+  maxTxSize: number,
+): Promise<PackedBatch[]> {
+  const batches: PackedBatch[] = [];
+  let available = utxos.filter((utxo) => !holdsCip68ReferenceToken(utxo));
+  let next = 0;
+
+  while (next < payments.length) {
+    let packed: string | undefined;
+    // `fits` payments are known to fit, more than `limit` are known not to
+    let fits = 0;
+    let limit = payments.length - next;
+    let doubling = true;
+    while (fits < limit) {
+      const count = doubling
+        ? Math.min(Math.max(fits * 2, 1), limit)
+        : Math.ceil((fits + limit) / 2);
+      const tx = await buildPayoutTx(
+        payments.slice(next, next + count),
+        address,
+        available,
+      ).catch(() => undefined);
+      if (tx === undefined || estimateSignedTxSize(tx, 1) > maxTxSize) {
+        limit = count - 1;
+        doubling = false;
+      } else {
+        packed = tx;
+        fits = count;
+      }
+    }
+    const end = next + fits;
+
+    if (packed === undefined) {
+      let reason: string;
+      try {
+        await buildPayoutTx([payments[next]!], address, available);
+        reason = `does not fit in a transaction of ${maxTxSize} bytes`;
+      } catch (error) {
+        reason = `cannot be funded: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      throw new PayoutError(`Payment ${payments[next]!.id} ${reason}`);
+    }
+
+    available = spendUtxos(available, packed, address);
+    batches.push({
+      tx: packed,
+      txHash: resolveTxHash(packed),
+      paymentIds: payments.slice(next, end).map((payment) => payment.id),
+      fee: deserializeTx(packed).toCore().body.fee.toString(),
+    });
+    next = end;
+  }
+
+  return batches;
+}
+
+/**
+ * Removes the inputs of a transaction from `utxos` and adds its outputs to `address`.
+ */
+function spendUtxos(utxos: UTxO[], tx: string, address: string): UTxO[] {
+  const txHash = resolveTxHash(tx);
+  const body = deserializeTx(tx).toCore().body;
+  const spent = new Set(body.inputs.map(inputKey));
+
+  return [
+    ...utxos.filter((utxo) => !spent.has(utxoKey(utxo))),
+    ...body.outputs.flatMap((output, outputIndex) =>
+      output.address === address
+        ? [
+            {
+              input: { txHash, outputIndex },
+              output: { address, amount: toAssets(output.value) },
+            },
+          ]
+        : [],
+    ),
+  ];
+}
+
+function utxoKey(utxo: UTxO) {
+  return `${utxo.input.txHash}#${utxo.input.outputIndex}`;
+}
+
+function inputKey(input: { txId: string; index: number }) {
+  return `${input.txId}#${input.index}`;
+}
+
+// the node's answer to a transaction whose inputs are already spent, on chain or in its mempool
+function isBadInputsError(error: unknown): boolean {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "string"
+        ? error
+        : JSON.stringify(error);
+  return message?.includes("BadInputsUTxO") ?? false;
+}
+
+async function buildPayoutTx(
+  payments: Payment[],
+  address: string,
+  utxos: UTxO[],
+): Promise<string> {
+  const txBuilder = new MeshTxBuilder();
+  for (const payment of payments) {
+    txBuilder.txOut(payment.address, payment.assets);
+  }
+  return txBuilder.changeAddress(address).selectUtxosFrom(utxos).complete();
+}
+
+function validatePayments(payments: Payment[]) {
+  const ids = new Set<string>();
+  const txBuilder = new MeshTxBuilder();
+
+  for (const payment of payments) {
+    if (ids.has(payment.id)) {
+      throw new PayoutError(`Payment ID ${payment.id} is repeated`);
+    }
+    ids.add(payment.id);
+
+    const lovelace = payment.assets.find((asset) => asset.unit === "lovelace");
+    if (lovelace === undefined) continue;
+    const minLovelace = txBuilder.calculateMinLovelaceForOutput({
+      address: payment.address,
+      amount: payment.assets,
+    });
+    if (BigInt(lovelace.quantity) < BigInt(minLovelace)) {
+      throw new PayoutError(
+        `Payment ${payment.id} of ${lovelace.quantity} lovelace is below the minimum of ${minLovelace}`,
+      );
+    }
+  }
+}
+
+function toAssets(value: {
+  coins: bigint;
+  assets?: Map<string, bigint>;
+}): Asset[] {
+  return [
+    { unit: "lovelace", quantity: value.coins.toString() },
+    ...[...(value.assets ?? [])].map(([unit, quantity]) => ({
+      unit,
+      quantity: quantity.toString(),
+    })),
+  ];
+}
+
+async function hashPayments(payments: Payment[]): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(payments));
+  return bytesToHex(
+    new Uint8Array(
+      await crypto.subtle.digest("SHA-256", bytes as BufferSource),
+    ),
+  );
+}
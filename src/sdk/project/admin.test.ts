@@ -0,0 +1,135 @@
+import { Web3Sdk } from "..";
+import { Web3SdkMockBackend } from "../transport";
+import { mockProject } from "../transport/mock-fixtures";
+import { ProjectConfigValidationError } from "./admin";
+
+function setup() {
+  const project = mockProject({
+    whitelistedUrls: ["https://example.com"],
+    googleOauthClient: "google-client",
+    googleOauthSecret: "google-secret",
+    branding: { name: "Test", googleEnabled: true },
+  });
+
+  const backend = new Web3SdkMockBackend({ project });
+  const sdk = new Web3Sdk({
+    projectId: project.id,
+    apiKey: project.apiKey,
+    network: "testnet",
+    transport: backend,
+  });
+
+  return { sdk, backend };
+}
+
+describe("ProjectAdmin", () => {
+  it("updates branding and whitelisted URLs", async () => {
+    const { sdk, backend } = setup();
+
+    expect(await sdk.admin.updateBranding({ color: "#ff0000" })).toEqual({
+      changes: [{ field: "branding.color", from: undefined, to: "#ff0000" }],
+      applied: true,
+    });
+    expect(backend.project.branding).toEqual({
+      name: "Test",
+      googleEnabled: true,
+      color: "#ff0000",
+    });
+
+    await sdk.admin.addWhitelistedUrls([
+      "https://app.example.com/",
+      "https://example.com",
+    ]);
+    expect(backend.project.whitelistedUrls).toEqual([
+      "https://example.com",
+      "https://app.example.com",
+    ]);
+
+    await sdk.admin.removeWhitelistedUrls(["https://example.com/"]);
+    expect(backend.project.whitelistedUrls).toEqual([
+      "https://app.example.com",
+    ]);
+    expect((await sdk.getProject()).whitelistedUrls).toEqual([
+      "https://app.example.com",
+    ]);
+  });
+
+  it("syncs a desired configuration and skips unchanged fields", async () => {
+    const { sdk, backend } = setup();
+    const desired = {
+      branding: { name: "Test", googleEnabled: true, discordEnabled: true },
+      oauth: {
+        discord: { clientId: "discord-client", clientSecret: "discord-secret" },
+      },
+    };
+
+    const dryRun = await sdk.admin.sync(desired, { dryRun: true });
+    expect(dryRun.applied).toBe(false);
+    expect(dryRun.changes).toEqual([
+      { field: "branding.discordEnabled", from: undefined, to: true },
+      { field: "discordOauthClient", from: null, to: "discord-client" },
+      { field: "discordOauthSecret", from: null, to: "[redacted]" },
+    ]);
+    expect(backend.project.discordOauthClient).toBeNull();
+
+    expect((await sdk.admin.sync(desired)).applied).toBe(true);
+    expect(backend.project.discordOauthSecret).toBe("discord-secret");
+    expect(await sdk.admin.sync(desired)).toEqual({
+      changes: [],
+      applied: false,
+    });
+  });
+
+  it("sends only the fields that changed", async () => {
+    const { sdk, backend } = setup();
+    const put = jest.spyOn(backend, "put");
+
+    await sdk.admin.setKeyExportDisabled(true);
+    expect(put.mock.calls[0]![1]).toEqual({ disableKeyExport: true });
+  });
+
+  it("keeps whitelisted entries that are not origins and only validates new ones", async () => {
+    const { sdk, backend } = setup();
+    backend.project.whitelistedUrls = [
+      "https://example.com/app",
+      "*.example.org",
+    ];
+
+    await sdk.admin.addWhitelistedUrls(["https://new.example.com/"]);
+    expect(backend.project.whitelistedUrls).toEqual([
+      "https://example.com/app",
+      "*.example.org",
+      "https://new.example.com",
+    ]);
+
+    await sdk.admin.removeWhitelistedUrls(["*.example.org"]);
+    expect(backend.project.whitelistedUrls).toEqual([
+      "https://example.com/app",
+      "https://new.example.com",
+    ]);
+    await expect(
+      sdk.admin.addWhitelistedUrls(["ftp://example.net"]),
+    ).rejects.toThrow('"ftp://example.net" is not an http(s) origin');
+  });
+
+  it("rejects invalid configurations", async () => {
+    const { sdk, backend } = setup();
+
+    await expect(
+      sdk.admin.updateBranding({ color: "red", logoUrl: "http://x.com/a.png" }),
+    ).rejects.toBeInstanceOf(ProjectConfigValidationError);
+    await expect(
+      sdk.admin.addWhitelistedUrls(["https://example.com/path"]),
+    ).rejects.toThrow("is not an http(s) origin");
+    await expect(sdk.admin.setAuthProvider("twitter", true)).rejects.toThrow(
+      "twitter login is enabled without OAuth credentials",
+    );
+    await expect(sdk.admin.setOAuthCredentials("google", null)).rejects.toThrow(
+      "google login is enabled without OAuth credentials",
+    );
+
+    await sdk.admin.setAuthProvider("google", false);
+    await sdk.admin.setOAuthCredentials("google", null);
+    expect(backend.project.googleOauthClient).toBeNull();
+  });
+});
@@ -0,0 +1,388 @@
+import { Web3Sdk } from "..";
+import {
+  Web3Project,
+  Web3ProjectAuthProvider,
+  Web3ProjectBranding,
+  Web3ProjectOAuthProvider,
+  Web3ProjectUpdate,
+} from "../../types";
+import { toPublicProject, WEB3_PROJECT_SECRET_FIELDS } from "./views";
+
+export type ProjectOAuthCredentials = {
+  clientId: string;
+  clientSecret: string;
+};
+
+/**
+ * The desired configuration of a project. Fields that are left out are not changed.
+ */
+export type ProjectAdminConfig = {
+  branding?: Web3ProjectBranding;
+  whitelistedUrls?: string[];
+  /** `null` removes the credentials of a provider. */
+  oauth?: Partial<
+    Record<Web3ProjectOAuthProvider, ProjectOAuthCredentials | null>
+  >;
+  /** Refuse to export developer wallet keys, see `WalletDeveloperControlled.getSigner`. */
+  disableKeyExport?: boolean;
+};
+
+export type ProjectConfigChange = {
+  /** The changed field, e.g. `branding.color` or `googleOauthSecret`. */
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+export type ProjectConfigSyncResult = {
+  changes: ProjectConfigChange[];
+  /** `false` when there was nothing to change or `dryRun` was set. */
+  applied: boolean;
+};
+
+const OAUTH_PROVIDERS: readonly Web3ProjectOAuthProvider[] = [
+  "discord",
+  "twitter",
+  "google",
+];
+
+const BRANDING_FIELDS: readonly (keyof Web3ProjectBranding)[] = [
+  "name",
+  "color",
+  "logoUrl",
+  "twitterEnabled",
+  "discordEnabled",
+  "googleEnabled",
+  "appleEnabled",
+];
+
+const REDACTED = "[redacted]";
+
+export class ProjectConfigValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid project configuration: ${issues.join("; ")}`);
+    this.name = "ProjectConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * The `ProjectAdmin` class manages the configuration of the current project: branding,
+ * whitelisted URLs, login providers, OAuth client credentials and key export.
+ *
+ * Every method validates the resulting configuration, compares it with the current one and
+ * only sends the fields that changed, so running the same script twice is a no-op.
+ */
+export class ProjectAdmin {
+  private readonly sdk: Web3Sdk;
+
+  constructor({ sdk }: { sdk: Web3Sdk }) {
+    {
+      this.sdk = sdk;
+    }
+  }
+
+  /**
+   * Compares a desired configuration with the current project, without changing anything.
+   * OAuth secrets are redacted in the returned changes.
+   *
+   * @param desired - The desired configuration.
+   * @returns The changes needed to reach the desired configuration.
+   *
+   * @throws {ProjectConfigValidationError} If the desired configuration is invalid.
+   */
+  async diff(desired: ProjectAdminConfig): Promise<ProjectConfigChange[]> {
+    const current = await this.sdk.getProjectAdmin();
+    return planUpdate(current, desired).changes;
+  }
+
+  /**
+   * Brings the project in line with a desired configuration, e.g. one kept in version control per environment.
+   *
+   * @param desired - The desired configuration.
+   * @param options.dryRun - Only compute the changes, do not apply them.
+   * @returns The changes and whether they were applied.
+   *
+   * @throws {ProjectConfigValidationError} If the desired configuration is invalid.
+   * @throws {Web3SdkError} If the update request to the backend fails.
+   */
+  async sync(
+    desired: ProjectAdminConfig,
+    { dryRun = false }: { dryRun?: boolean } = {},
+  ): Promise<ProjectConfigSyncResult> {
+    const current = await this.sdk.getProjectAdmin();
+    const { update, changes } = planUpdate(current, desired);
+
+    if (changes.length === 0 || dryRun) {
+      return { changes, applied: false };
+    }
+
+    const { data } = await this.sdk.transport.put(
+      `api/project/${this.sdk.projectId}`,
+      update,
+    );
+    this.sdk.project = toPublicProject(data as Web3Project);
+
+    return { changes, applied: true };
+  }
+
+  /**
+   * Updates the branding shown in the login window. Fields that are left out keep their value.
+   *
+   * @param branding - The branding fields to set.
+   */
+  async updateBranding(branding: Partial<Web3ProjectBranding>) {
+    const current = await this.sdk.getProjectAdmin();
+    return this.sync({ branding: { ...current.branding, ...branding } });
+  }
+
+  /**
+   * Adds origins to the whitelisted URLs. Origins that are already whitelisted are skipped.
+   *
+   * @param urls - The origins to add, e.g. `https://app.example.com`.
+   */
+  async addWhitelistedUrls(urls: string[]) {
+    const current = await this.sdk.getProjectAdmin();
+    return this.sync({
+      whitelistedUrls: [...current.whitelistedUrls, ...urls],
+    });
+  }
+
+  /**
+   * Removes origins from the whitelisted URLs. Origins that are not whitelisted are ignored.
+   *
+   * @param urls - The origins to remove.
+   */
+  async removeWhitelistedUrls(urls: string[]) {
+    const current = await this.sdk.getProjectAdmin();
+    const removed = new Set(urls.map(originKey));
+    return this.sync({
+      whitelistedUrls: current.whitelistedUrls.filter(
+        (url) => !removed.has(originKey(url)),
+      ),
+    });
+  }
+
+  /**
+   * Enables or disables a login provider.
+   *
+   * @param provider - The login provider.
+   * @param enabled - Whether users can log in with it.
+   *
+   * @throws {ProjectConfigValidationError} If an OAuth provider is enabled without client credentials.
+   */
+  async setAuthProvider(provider: Web3ProjectAuthProvider, enabled: boolean) {
+    return this.updateBranding({ [`${provider}Enabled`]: enabled });
+  }
+
+  /**
+   * Sets or removes the OAuth client credentials of a login provider.
+   *
+   * @param provider - The OAuth provider.
+   * @param credentials - The client ID and secret, or `null` to remove them.
+   *
+   * @throws {ProjectConfigValidationError} If credentials are removed while the provider is enabled.
+   */
+  async setOAuthCredentials(
+    provider: Web3ProjectOAuthProvider,
+    credentials: ProjectOAuthCredentials | null,
+  ) {
+    return this.sync({ oauth: { [provider]: credentials } });
+  }
+
+  /**
+   * Enables or disables the export of developer wallet keys. While disabled, `getWallet` refuses `decryptKey`
+   * and the master seed cannot be exported, so wallets can only be used through signers. Every SDK checks the
+   * setting before each export, it is a safeguard of the SDK, the backend still serves encrypted keys.
+   *
+   * @param disabled - Whether key export is disabled.
+   */
+  async setKeyExportDisabled(disabled: boolean) {
+    return this.sync({ disableKeyExport: disabled });
+  }
+}
+
+/**
+ * Normalizes a whitelisted URL to its origin, returns `undefined` if it is not an http(s) origin.
+ */
+function normalizeOrigin(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return undefined;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return undefined;
+  }
+  if (parsed.pathname !== "/" || parsed.search || parsed.hash) {
+    return undefined;
+  }
+  return parsed.origin;
+}
+
+/**
+ * Compares whitelisted URLs by origin, entries that are not origins are compared as they are.
+ */
+function originKey(url: string): string {
+  return normalizeOrigin(url) ?? url.trim();
+}
+
+function validateBranding(branding: Web3ProjectBranding, issues: string[]) {
+  for (const field of Object.keys(branding)) {
+    if (!BRANDING_FIELDS.includes(field as keyof Web3ProjectBranding)) {
+      issues.push(`Unknown branding field "${field}"`);
+    }
+  }
+  if (branding.name !== undefined && branding.name.trim() === "") {
+    issues.push("Branding name must not be empty");
+  }
+  if (
+    branding.color !== undefined &&
+    !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(branding.color)
+  ) {
+    issues.push(`Branding color "${branding.color}" is not a hex color`);
+  }
+  if (branding.logoUrl !== undefined) {
+    let isHttps = false;
+    try {
+      isHttps = new URL(branding.logoUrl).protocol === "https:";
+    } catch {}
+    if (!isHttps) {
+      issues.push(
+        `Branding logo URL "${branding.logoUrl}" is not an https URL`,
+      );
+    }
+  }
+}
+
+/**
+ * Validates the desired configuration against the current project and works out the update to send.
+ */
+function planUpdate(current: Web3Project, desired: ProjectAdminConfig) {
+  const issues: string[] = [];
+  const next: Web3ProjectUpdate = {
+    branding: desired.branding ?? current.branding,
+    whitelistedUrls: current.whitelistedUrls,
+  };
+
+  validateBranding(next.branding!, issues);
+
+  if (desired.whitelistedUrls) {
+    // entries that are already whitelisted are kept as they are, only new ones must be origins
+    const existing = new Map(
+      current.whitelistedUrls.map((url) => [originKey(url), url]),
+    );
+    const urls = new Map<string, string>();
+    for (const url of desired.whitelistedUrls) {
+      const key = originKey(url);
+      if (urls.has(key)) continue;
+      const kept = existing.get(key);
+      if (kept !== undefined) {
+        urls.set(key, kept);
+      } else if (normalizeOrigin(url) === undefined) {
+        issues.push(`Whitelisted URL "${url}" is not an http(s) origin`);
+      } else {
+        urls.set(key, key);
+      }
+    }
+    next.whitelistedUrls = [...urls.values()];
+  }
+
+  for (const provider of OAUTH_PROVIDERS) {
+    const clientField = `${provider}OauthClient` as const;
+    const secretField = `${provider}OauthSecret` as const;
+    const credentials = desired.oauth?.[provider];
+
+    if (credentials === null) {
+      next[clientField] = null;
+      next[secretField] = null;
+    } else if (credentials !== undefined) {
+      if (!credentials.clientId.trim() || !credentials.clientSecret.trim()) {
+        issues.push(`OAuth credentials of ${provider} must not be empty`);
+      }
+      next[clientField] = credentials.clientId;
+      next[secretField] = credentials.clientSecret;
+    } else {
+      next[clientField] = current[clientField];
+      next[secretField] = current[secretField];
+    }
+
+    if (
+      next.branding![`${provider}Enabled`] &&
+      (!next[clientField] || !next[secretField])
+    ) {
+      issues.push(`${provider} login is enabled without OAuth credentials`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ProjectConfigValidationError(issues);
+  }
+
+  const update: Web3ProjectUpdate = {};
+  const changes: ProjectConfigChange[] = [];
+
+  const disableKeyExport = current.disableKeyExport ?? false;
+  if (
+    desired.disableKeyExport !== undefined &&
+    desired.disableKeyExport !== disableKeyExport
+  ) {
+    update.disableKeyExport = desired.disableKeyExport;
+    changes.push({
+      field: "disableKeyExport",
+      from: disableKeyExport,
+      to: desired.disableKeyExport,
+    });
+  }
+
+  let brandingChanged = false;
+  for (const field of BRANDING_FIELDS) {
+    const from = current.branding[field];
+    const to = next.branding![field];
+    if (from !== to) {
+      brandingChanged = true;
+      changes.push({ field: `branding.${field}`, from, to });
+    }
+  }
+  if (brandingChanged) {
+    update.branding = next.branding;
+  }
+
+  if (
+    next.whitelistedUrls!.length !== current.whitelistedUrls.length ||
+    next.whitelistedUrls!.some(
+      (url, i) => originKey(url) !== originKey(current.whitelistedUrls[i]!),
+    )
+  ) {
+    update.whitelistedUrls = next.whitelistedUrls;
+    changes.push({
+      field: "whitelistedUrls",
+      from: current.whitelistedUrls,
+      to: next.whitelistedUrls,
+    });
+  }
+
+  for (const provider of OAUTH_PROVIDERS) {
+    for (const field of [
+      `${provider}OauthClient`,
+      `${provider}OauthSecret`,
+    ] as const) {
+      if (current[field] === next[field]) continue;
+
+      update[field] = next[field];
+      const isSecret = (
+        WEB3_PROJECT_SECRET_FIELDS as readonly string[]
+      ).includes(field);
+      changes.push({
+        field,
+        from: isSecret && current[field] !== null ? REDACTED : current[field],
+        to: isSecret && next[field] !== null ? REDACTED : next[field],
+      });
+    }
+  }
+
+  return { update, changes };
+}
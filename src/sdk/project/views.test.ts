@@ -0,0 +1,64 @@
+import { Web3Sdk } from "..";
+import { Web3SdkMockBackend } from "../transport";
+import { mockProject } from "../transport/mock-fixtures";
+import { redactProject, serializeProject, toPublicProject } from "./views";
+
+const project = mockProject({
+  whitelistedUrls: ["https://example.com"],
+  discordOauthClient: "discord-client",
+  discordOauthSecret: "discord-secret",
+  googleOauthClient: "google-client",
+  googleOauthSecret: "google-secret",
+  branding: { name: "Test", color: "#000000" },
+  publicKey: "public-key",
+});
+
+describe("project views", () => {
+  it("keeps secrets out of the public view", () => {
+    const publicProject = toPublicProject(project);
+
+    expect(publicProject).toEqual({
+      id: "project-1",
+      name: "Test project",
+      isActive: true,
+      whitelistedUrls: ["https://example.com"],
+      branding: { name: "Test", color: "#000000" },
+      publicKey: "public-key",
+      discordOauthClient: "discord-client",
+      twitterOauthClient: null,
+      googleOauthClient: "google-client",
+    });
+    expect(publicProject.whitelistedUrls).not.toBe(project.whitelistedUrls);
+  });
+
+  it("reads the public view from a route that returns no secrets", async () => {
+    const backend = new Web3SdkMockBackend({ project });
+    const sdk = new Web3Sdk({
+      projectId: project.id,
+      apiKey: project.apiKey,
+      network: "testnet",
+      transport: backend,
+    });
+    const get = jest.spyOn(backend, "get");
+
+    expect(await sdk.getProject()).toEqual(toPublicProject(project));
+    const { data } = await get.mock.results[0]!.value;
+    expect(data).not.toHaveProperty("apiKey");
+    expect(JSON.stringify(data)).not.toContain("secret");
+  });
+
+  it("redacts secrets unless asked to include them", () => {
+    const redacted = redactProject(project);
+    expect(redacted).not.toHaveProperty("apiKey");
+    expect(redacted).not.toHaveProperty("googleOauthSecret");
+    expect(redacted.credits).toBe(100);
+
+    const json = serializeProject(project);
+    expect(json).not.toContain("api-key");
+    expect(json).not.toContain("secret");
+
+    expect(serializeProject(project, { includeSecrets: true })).toContain(
+      "discord-secret",
+    );
+  });
+});
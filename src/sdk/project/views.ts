@@ -0,0 +1,62 @@
+import {
+  Web3Project,
+  Web3ProjectPublic,
+  Web3ProjectSecretField,
+} from "../../types";
+
+export const WEB3_PROJECT_SECRET_FIELDS: readonly Web3ProjectSecretField[] = [
+  "apiKey",
+  "discordOauthSecret",
+  "twitterOauthSecret",
+  "googleOauthSecret",
+];
+
+/**
+ * Builds the public view of a project. Only whitelisted fields are copied,
+ * so fields added to `Web3Project` later stay private until they are added here.
+ */
+export function toPublicProject(
+  project: Web3Project | Web3ProjectPublic,
+): Web3ProjectPublic {
+  return {
+    id: project.id,
+    name: project.name,
+    isActive: project.isActive,
+    whitelistedUrls: [...project.whitelistedUrls],
+    branding: { ...project.branding },
+    publicKey: project.publicKey,
+    discordOauthClient: project.discordOauthClient,
+    twitterOauthClient: project.twitterOauthClient,
+    googleOauthClient: project.googleOauthClient,
+    disableKeyExport: project.disableKeyExport,
+  };
+}
+
+/**
+ * Returns a copy of the project without its secret fields.
+ */
+export function redactProject(
+  project: Web3Project,
+): Omit<Web3Project, Web3ProjectSecretField> {
+  const redacted: Partial<Web3Project> = { ...project };
+  for (const field of WEB3_PROJECT_SECRET_FIELDS) {
+    delete redacted[field];
+  }
+  return redacted as Omit<Web3Project, Web3ProjectSecretField>;
+}
+
+/**
+ * Serializes a project to JSON. Secret fields are left out unless `includeSecrets` is set.
+ *
+ * @param project - The project to serialize.
+ * @param options.includeSecrets - Emit the API key and OAuth secrets as well (default: false).
+ */
+export function serializeProject(
+  project: Web3Project | Web3ProjectPublic,
+  { includeSecrets = false }: { includeSecrets?: boolean } = {},
+): string {
+  if (includeSecrets) {
+    return JSON.stringify(project);
+  }
+  return JSON.stringify(redactProject(project as Web3Project));
+}
@@ -0,0 +1,118 @@
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { Web3SdkEvent } from "../instrumentation";
+import { mockSdk } from "../transport/mock-fixtures";
+import { WalletSpendingPolicyError } from "../wallet-developer-controlled";
+import { SpendingPolicy, SpendingPolicyViolationError } from ".";
+
+const txHash =
+  "5a1edf7da58eff2059030abd456947a96cb2d16b9d8c3822ffff58d167ed8bfc";
+
+describe("SpendingPolicyEngine", () => {
+  async function setup(policies: SpendingPolicy[]) {
+    const events: Web3SdkEvent[] = [];
+    const { sdk } = await mockSdk({
+      spendingPolicies: policies,
+      onEvent: (event) => events.push(event),
+    });
+
+    const treasury = await sdk.wallet.createWallet({ tags: ["treasury"] });
+    const other = await sdk.wallet.createWallet();
+    const signer = await sdk.wallet.getSigner(treasury.id);
+    const from = await signer.cardano.getChangeAddress();
+    const to = await (
+      await sdk.wallet.getSigner(other.id)
+    ).cardano.getChangeAddress();
+
+    const payment = (lovelace: string, outputIndex = 0) =>
+      new MeshTxBuilder()
+        .txIn(
+          txHash,
+          outputIndex,
+          [{ unit: "lovelace", quantity: "100000000" }],
+          from,
+          0,
+        )
+        .txOut(to, [{ unit: "lovelace", quantity: lovelace }])
+        .changeAddress(from)
+        .complete();
+
+    const decisions = () =>
+      events.filter((event) => event.type === "policy-decision");
+
+    return { sdk, treasury, signer, to, payment, decisions };
+  }
+
+  it("enforces per-transaction and daily limits on the sent amount", async () => {
+    const { signer, payment, decisions } = await setup([
+      {
+        id: "treasury-limits",
+        tags: ["treasury"],
+        perTransactionLimits: { lovelace: 5000000 },
+        dailyLimits: { lovelace: "8000000" },
+      },
+    ]);
+
+    expect(await signer.cardano.signTx(await payment("4000000", 0))).toEqual(
+      expect.any(String),
+    );
+    await expect(
+      signer.cardano.signTx(await payment("6000000", 1)),
+    ).rejects.toThrow("exceeds the per-transaction limit of 5000000");
+    await expect(
+      signer.cardano.signTx(await payment("4500000", 2)),
+    ).rejects.toThrow(SpendingPolicyViolationError);
+
+    expect(decisions()).toEqual([
+      expect.objectContaining({ allowed: true, violations: [] }),
+      expect.objectContaining({ allowed: false }),
+      expect.objectContaining({
+        allowed: false,
+        policyIds: ["treasury-limits"],
+        violations: [
+          "treasury-limits: 8500000 lovelace in 24 hours exceeds the daily limit of 8000000",
+        ],
+      }),
+    ]);
+  });
+
+  it("counts a spend toward the daily limit only once it is signed", async () => {
+    const { sdk, treasury, signer, payment } = await setup([
+      { id: "daily", tags: ["treasury"], dailyLimits: { lovelace: 8000000 } },
+    ]);
+
+    await expect(
+      sdk.policies.enforce(treasury, [await payment("4000000", 0)], () =>
+        Promise.reject(new Error("signer offline")),
+      ),
+    ).rejects.toThrow("signer offline");
+
+    await signer.cardano.signTx(await payment("4000000", 1));
+    await signer.cardano.signTx(await payment("4000000", 2));
+    await expect(signer.cardano.signTx(await payment("1", 3))).rejects.toThrow(
+      "exceeds the daily limit of 8000000",
+    );
+  });
+
+  it("allows only allowlisted destinations and applies to wallets from getWallet", async () => {
+    const { sdk, treasury, to, payment } = await setup([
+      { id: "payees", tags: ["treasury"], allowedAddresses: [] },
+    ]);
+    const { wallet } = await sdk.wallet.getWallet(treasury.id);
+
+    const error = await wallet
+      .signTx(await payment("1000000"))
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(SpendingPolicyViolationError);
+    expect(error.decision.violations).toEqual([
+      `payees: ${to} is not allowlisted`,
+    ]);
+
+    // neither the key nor chain wallets the policies cannot check are handed out
+    await expect(
+      sdk.wallet.getWallet(treasury.id, 0, true),
+    ).rejects.toBeInstanceOf(WalletSpendingPolicyError);
+    expect(
+      (await sdk.wallet.getWallet(treasury.id, 0, false)).bitcoinWallet,
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,362 @@
+import { Web3Sdk } from "..";
+import {
+  CertificateType,
+  deserializeBech32Address,
+  deserializeTx,
+  resolveTxHash,
+} from "@meshsdk/core-cst";
+import { MeshWallet } from "@meshsdk/wallet";
+import { Web3ProjectWallet } from "../../types";
+import { timed } from "../instrumentation";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SpendingPolicyCertificate = keyof typeof CertificateType;
+
+/**
+ * A declarative spending policy, attached to wallets by ID or by tag. Amounts are keyed by asset unit,
+ * `lovelace` or policy ID + asset name, and given in the smallest denomination.
+ *
+ * Amounts count what a transaction sends to addresses other than the wallet's own payment key.
+ */
+export type SpendingPolicy = {
+  id: string;
+  walletIds?: string[];
+  tags?: string[];
+  /** Maximum amount per transaction. */
+  perTransactionLimits?: Record<string, string | number | bigint>;
+  /** Maximum amount over the last 24 hours, counting transactions signed under the policy. */
+  dailyLimits?: Record<string, string | number | bigint>;
+  /** When set, every output to another address must go to one of these addresses or script hashes. */
+  allowedAddresses?: string[];
+  allowedScriptHashes?: string[];
+  /** Certificate types the transaction must not carry, e.g. `StakeDeregistration`. */
+  forbiddenCertificates?: SpendingPolicyCertificate[];
+};
+
+export type SpendingPolicyDecision = {
+  walletId: string;
+  txHash: string;
+  allowed: boolean;
+  /** The IDs of the policies that applied. */
+  policyIds: string[];
+  /** Why the transaction was denied, empty when it was allowed. */
+  violations: string[];
+  /** The amount sent to other addresses, by asset unit. */
+  spent: Record<string, string>;
+};
+
+export type SpendingLedgerEntry = {
+  walletId: string;
+  txHash: string;
+  spent: Record<string, string>;
+  signedAt: Date;
+};
+
+/**
+ * Keeps the spends of allowed transactions for the rolling daily limits. Share one ledger across
+ * processes that sign for the same wallets, or each process enforces its own daily limit.
+ */
+export interface SpendingLedger {
+  record(entry: SpendingLedgerEntry): void | Promise<void>;
+  list(
+    walletId: string,
+    since: Date,
+  ): SpendingLedgerEntry[] | Promise<SpendingLedgerEntry[]>;
+}
+
+export class MemorySpendingLedger implements SpendingLedger {
+  private readonly entries: SpendingLedgerEntry[] = [];
+
+  record(entry: SpendingLedgerEntry) {
+    this.entries.push(entry);
+  }
+
+  list(walletId: string, since: Date) {
+    return this.entries.filter(
+      (entry) => entry.walletId === walletId && entry.signedAt >= since,
+    );
+  }
+}
+
+export class SpendingPolicyViolationError extends Error {
+  readonly decision: SpendingPolicyDecision;
+
+  constructor(decision: SpendingPolicyDecision) {
+    super(
+      `Transaction ${decision.txHash} of wallet ${decision.walletId} violates spending policy: ${decision.violations.join("; ")}`,
+    );
+    this.name = "SpendingPolicyViolationError";
+    this.decision = decision;
+  }
+}
+
+/**
+ * The `SpendingPolicyEngine` checks Cardano transactions of developer wallets against their spending
+ * policies before they are signed. Signers from `getSigner` and wallets from `getWallet` call it for every
+ * `signTx`, and every decision is reported as a `policy-decision` event.
+ */
+export class SpendingPolicyEngine {
+  private readonly sdk: Web3Sdk;
+  private readonly policies: SpendingPolicy[];
+  private readonly ledger: SpendingLedger;
+  // decisions of one wallet are serialized, so concurrent signatures cannot both use the same daily allowance
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor({
+    sdk,
+    policies = [],
+    ledger,
+  }: {
+    sdk: Web3Sdk;
+    policies?: SpendingPolicy[];
+    ledger?: SpendingLedger;
+  }) {
+    this.sdk = sdk;
+    this.policies = policies;
+    this.ledger = ledger ?? new MemorySpendingLedger();
+  }
+
+  /**
+   * Returns the policies attached to a wallet, by ID or by one of its tags.
+   */
+  policiesFor(wallet: Web3ProjectWallet): SpendingPolicy[] {
+    return this.policies.filter(
+      (policy) =>
+        policy.walletIds?.includes(wallet.id) ||
+        policy.tags?.some((tag) => wallet.tags.includes(tag)),
+    );
+  }
+
+  /**
+   * Checks transactions against the wallet's policies and signs them with `sign` if they are all allowed.
+   * Their spend is recorded once `sign` resolves, a failed signature leaves the daily allowance untouched.
+   *
+   * @param wallet - The wallet that is about to sign.
+   * @param unsignedTxs - The transactions CBOR, signed together by `sign`.
+   * @param sign - Produces the signatures, only called when every transaction is allowed.
+   * @returns The result of `sign`.
+   *
+   * @throws {SpendingPolicyViolationError} If a transaction violates a policy, nothing is signed then.
+   */
+  async enforce<T>(
+    wallet: Web3ProjectWallet,
+    unsignedTxs: string[],
+    sign: () => Promise<T>,
+  ): Promise<T> {
+    const previous = this.queues.get(wallet.id) ?? Promise.resolve();
+    // the queue is held until the spend is recorded, the next decision sees it
+    const result = previous
+      .catch(() => undefined)
+      .then(() => this.decideAndSign(wallet, unsignedTxs, sign));
+    this.queues.set(wallet.id, result);
+
+    try {
+      return await result;
+    } finally {
+      if (this.queues.get(wallet.id) === result) {
+        this.queues.delete(wallet.id);
+      }
+    }
+  }
+
+  private async decideAndSign<T>(
+    wallet: Web3ProjectWallet,
+    unsignedTxs: string[],
+    sign: () => Promise<T>,
+  ): Promise<T> {
+    const allowed: SpendingPolicyDecision[] = [];
+    for (const unsignedTx of unsignedTxs) {
+      const decision = await this.decide(wallet, unsignedTx, allowed);
+      if (!decision.allowed) {
+        throw new SpendingPolicyViolationError(decision);
+      }
+      allowed.push(decision);
+    }
+
+    const signed = await sign();
+    const signedAt = new Date();
+    for (const { txHash, spent, policyIds } of allowed) {
+      if (policyIds.length > 0) {
+        await this.ledger.record({
+          walletId: wallet.id,
+          txHash,
+          spent,
+          signedAt,
+        });
+      }
+    }
+    return signed;
+  }
+
+  /**
+   * @param pending - Allowed transactions signed with this one, their spend counts toward the daily limits.
+   */
+  private async decide(
+    wallet: Web3ProjectWallet,
+    unsignedTx: string,
+    pending: SpendingPolicyDecision[],
+  ): Promise<SpendingPolicyDecision> {
+    let decision: SpendingPolicyDecision | undefined;
+
+    await timed(
+      async () => {
+        decision = await this.evaluate(wallet, unsignedTx, pending);
+      },
+      (durationMs, error) =>
+        this.sdk.emit({
+          type: "policy-decision",
+          walletId: wallet.id,
+          txHash: decision?.txHash,
+          allowed: decision?.allowed ?? false,
+          policyIds: decision?.policyIds ?? [],
+          violations: decision?.violations ?? [],
+          durationMs,
+          error,
+        }),
+    );
+
+    return decision!;
+  }
+
+  private async evaluate(
+    wallet: Web3ProjectWallet,
+    unsignedTx: string,
+    pending: SpendingPolicyDecision[],
+  ): Promise<SpendingPolicyDecision> {
+    const policies = this.policiesFor(wallet);
+    const tx = deserializeTx(unsignedTx).toCore();
+    const txHash = resolveTxHash(unsignedTx);
+
+    const spent = new Map<string, bigint>();
+    const destinations: { address: string; scriptHash?: string }[] = [];
+    for (const output of tx.body.outputs) {
+      const credentials = getPaymentCredentials(output.address);
+      if (credentials.pubKeyHash === wallet.pubKeyHash) continue;
+
+      destinations.push({
+        address: output.address,
+        scriptHash: credentials.scriptHash,
+      });
+      addAmount(spent, "lovelace", output.value.coins);
+      for (const [unit, quantity] of output.value.assets ?? []) {
+        addAmount(spent, unit, quantity);
+      }
+    }
+
+    const certificates = (tx.body.certificates ?? []).map(
+      (certificate) => CERTIFICATE_NAMES[certificate.__typename],
+    );
+
+    const violations: string[] = [];
+    const needsHistory = policies.some((policy) => policy.dailyLimits);
+    const history = needsHistory
+      ? await this.ledger.list(wallet.id, new Date(Date.now() - DAY_MS))
+      : [];
+    const spentToday = new Map<string, bigint>();
+    for (const entry of [...history, ...pending]) {
+      for (const [unit, quantity] of Object.entries(entry.spent)) {
+        addAmount(spentToday, unit, BigInt(quantity));
+      }
+    }
+
+    for (const policy of policies) {
+      for (const [unit, limit] of Object.entries(
+        policy.perTransactionLimits ?? {},
+      )) {
+        const amount = spent.get(unit) ?? 0n;
+        if (amount > BigInt(limit)) {
+          violations.push(
+            `${policy.id}: ${amount} ${unit} exceeds the per-transaction limit of ${limit}`,
+          );
+        }
+      }
+
+      for (const [unit, limit] of Object.entries(policy.dailyLimits ?? {})) {
+        const amount = (spentToday.get(unit) ?? 0n) + (spent.get(unit) ?? 0n);
+        if (amount > BigInt(limit)) {
+          violations.push(
+            `${policy.id}: ${amount} ${unit} in 24 hours exceeds the daily limit of ${limit}`,
+          );
+        }
+      }
+
+      if (policy.allowedAddresses || policy.allowedScriptHashes) {
+        for (const { address, scriptHash } of destinations) {
+          const allowed =
+            policy.allowedAddresses?.includes(address) ||
+            (scriptHash !== undefined &&
+              policy.allowedScriptHashes?.includes(scriptHash));
+          if (!allowed) {
+            violations.push(`${policy.id}: ${address} is not allowlisted`);
+          }
+        }
+      }
+
+      for (const certificate of certificates) {
+        if (policy.forbiddenCertificates?.includes(certificate!)) {
+          violations.push(
+            `${policy.id}: ${certificate} certificates are forbidden`,
+          );
+        }
+      }
+    }
+
+    return {
+      walletId: wallet.id,
+      txHash,
+      allowed: violations.length === 0,
+      policyIds: policies.map((policy) => policy.id),
+      violations,
+      spent: Object.fromEntries(
+        [...spent].map(([unit, quantity]) => [unit, quantity.toString()]),
+      ),
+    };
+  }
+}
+
+/**
+ * Routes `signTx` and `signTxs` of a wallet through `enforce`, so no transaction is signed without a decision.
+ */
+export function guardMeshWallet(
+  wallet: MeshWallet,
+  enforce: <T>(unsignedTxs: string[], sign: () => Promise<T>) => Promise<T>,
+): MeshWallet {
+  const signTx = wallet.signTx.bind(wallet);
+  const signTxs = wallet.signTxs.bind(wallet);
+
+  wallet.signTx = async (unsignedTx, ...args) =>
+    enforce([unsignedTx], () => signTx(unsignedTx, ...args));
+  wallet.signTxs = async (unsignedTxs, ...args) =>
+    enforce(unsignedTxs, () => signTxs(unsignedTxs, ...args));
+
+  return wallet;
+}
+
+const CERTIFICATE_NAMES = Object.fromEntries(
+  Object.entries(CertificateType).map(([name, typename]) => [typename, name]),
+) as Record<string, SpendingPolicyCertificate>;
+
+function getPaymentCredentials(address: string): {
+  pubKeyHash?: string;
+  scriptHash?: string;
+} {
+  try {
+    const { pubKeyHash, scriptHash } = deserializeBech32Address(address);
+    return {
+      pubKeyHash: pubKeyHash || undefined,
+      scriptHash: scriptHash || undefined,
+    };
+  } catch {
+    // Byron addresses carry no payment credential we can compare
+    return {};
+  }
+}
+
+function addAmount(
+  amounts: Map<string, bigint>,
+  unit: string,
+  quantity: bigint,
+) {
+  amounts.set(unit, (amounts.get(unit) ?? 0n) + quantity);
+}
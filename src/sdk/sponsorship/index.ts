@@ -1,10 +1,11 @@
 import { Web3Sdk } from "..";
 import { UTxO } from "@meshsdk/common";
 import { MeshTxBuilder } from "@meshsdk/transaction";
-import { meshUniversalStaticUtxo } from "../index";
+import { Web3SdkNotFoundError } from "../errors";
+import { timed, Web3SdkSponsorshipStep } from "../instrumentation";
 import { SponsorshipTxParserPostRequestBody } from "../../types";
 
-type SponsorshipConfig = {
+export type SponsorshipConfig = {
   id: string;
   projectId: string;
   projectWalletId: string;
@@ -14,7 +15,7 @@ type SponsorshipConfig = {
   sponsorshipInfo: string | null;
 };
 
-type SponsorshipOutput = {
+export type SponsorshipOutput = {
   projectWalletId: string;
   txHash: string;
   outputIndex: number;
@@ -46,13 +47,20 @@ export class Sponsorship {
    * and a predefined UTXO used for sponsorship.
    *
    * @returns An object containing the change address and the static UTXO.
+   * @throws {Error} If the network profile has no static sponsor UTxOs.
    */
   getStaticInfo(amount: "5" | "99" = "5") {
+    const staticUtxos = this.sdk.networkProfile.cardano.staticUtxos;
+    if (staticUtxos === null) {
+      throw new Error(
+        `Network ${this.sdk.network} has no static sponsor UTxOs, define them with defineNetworkProfile`,
+      );
+    }
+
     return {
-      changeAddress:
-        meshUniversalStaticUtxo[this.sdk.network]["5"].output.address,
-      utxo: meshUniversalStaticUtxo[this.sdk.network][amount],
-      collateral: meshUniversalStaticUtxo[this.sdk.network]["5"],
+      changeAddress: staticUtxos["5"].output.address,
+      utxo: staticUtxos[amount],
+      collateral: staticUtxos["5"],
     };
   }
 
@@ -66,6 +74,8 @@ export class Sponsorship {
    * @param params.feeChangeAddress - (Optional) Either `feeChangeAddress` or `feeOutputIndex`. The address to which any change from the fee will be sent, the fee balance will be the first output with this address.
    * @param params.feeOutputIndex - (Optional) Either `feeChangeAddress` or `feeOutputIndex`. The index of the output in the transaction where the fee is specified, the fee balanace will combine with the output with this index.
    * @returns A promise that resolves to the new transaction in CBOR format after sponsorship.
+   *
+   * @throws {Web3SdkInsufficientCreditsError} If `preflightCredits` is set and the project cannot pay for the sponsorship, checked before any UTXO is reserved.
    */
   async sponsorTx({
     sponsorshipId,
@@ -74,27 +84,52 @@ export class Sponsorship {
     sponsorshipId: string;
     tx: string;
   }): Promise<SponsorTxResponse> {
+    const start = Date.now();
+    const report = (success: boolean, error?: unknown) =>
+      this.sdk.emit({
+        type: "sponsorship",
+        sponsorshipId,
+        success,
+        durationMs: Date.now() - start,
+        error,
+      });
+
     /**
      * get sponsorship config
      */
-    const { data, status } = await this.sdk.axiosInstance.get(
-      `api/sponsorship/${sponsorshipId}`,
-    );
+    let sponsorshipConfig: SponsorshipConfig;
+    try {
+      if (this.sdk.preflightCredits) {
+        await this.sdk.usage.ensureCredits("sponsorship");
+      }
 
-    if (status !== 200) {
-      return {
-        success: false,
-        error: "Invalid sponsorship ID or failed to fetch sponsorship config",
-      };
+      const { data } = await this.sdk.transport.get(
+        `api/sponsorship/${sponsorshipId}`,
+      );
+      sponsorshipConfig = data as SponsorshipConfig;
+    } catch (error) {
+      report(false, error);
+      if (error instanceof Web3SdkNotFoundError) {
+        return {
+          success: false,
+          error: "Invalid sponsorship ID or failed to fetch sponsorship config",
+        };
+      }
+      throw error;
     }
 
-    const sponsorshipConfig = data as SponsorshipConfig;
-
-    const signedRebuiltTxHex = await this.sponsorTxAndSign({
-      txHex: tx,
-      config: sponsorshipConfig,
-    });
+    let signedRebuiltTxHex: string;
+    try {
+      signedRebuiltTxHex = await this.sponsorTxAndSign({
+        txHex: tx,
+        config: sponsorshipConfig,
+      });
+    } catch (error) {
+      report(false, error);
+      throw error;
+    }
 
+    report(true);
     return { success: true, data: signedRebuiltTxHex };
   }
 
@@ -153,20 +188,20 @@ export class Sponsorship {
     // Make more UTXOs if prepareUtxo=true
     if (prepareUtxo) {
       try {
-        sponsorshipTxHash = await this.prepareSponsorUtxosTx({
-          config: config,
-        });
+        sponsorshipTxHash = await this.step("prepare-pool", config, () =>
+          this.prepareSponsorUtxosTx({
+            config: config,
+          }),
+        );
         sponsorshipIndex = 0;
       } catch (error) {
-        // if fail, attempt to use refreshTxHash
-        console.error("Failed to prepare sponsor UTXOs:", error);
+        // if fail, attempt to use refreshTxHash, the failure is reported through the `prepare-pool` event
 
-        const { data: resRefreshTxHash, status: refreshStatus } =
-          await this.sdk.axiosInstance.get(
-            `api/sponsorship/${config.id}/refreshTxHash`,
-          );
+        const { data: resRefreshTxHash } = await this.sdk.transport.get(
+          `api/sponsorship/${config.id}/refreshTxHash`,
+        );
 
-        if (refreshStatus !== 200 || !resRefreshTxHash.refreshTxHash) {
+        if (!resRefreshTxHash.refreshTxHash) {
           throw new Error("Failed to get refresh transaction hash");
         }
         sponsorshipTxHash = resRefreshTxHash.refreshTxHash as string;
@@ -174,163 +209,168 @@ export class Sponsorship {
       }
     }
 
-    let selectedUtxo: UTxO | undefined = undefined;
-
-    // If we just prepared the UTXOs, we can use the sponsorship tx hash as input
-    if (sponsorshipTxHash !== undefined && sponsorshipIndex !== undefined) {
-      selectedUtxo = {
-        input: {
-          txHash: sponsorshipTxHash,
-          outputIndex: sponsorshipIndex,
-        },
-        output: {
-          amount: [
-            {
-              unit: "lovelace",
-              quantity: (config.utxoAmount * 1000000).toString(),
-            },
-          ],
-          address: sponsorshipWalletAddress as string,
-        },
-      };
-
-      // and mark this as used
-      await this.dbAppendUtxosUsed(config, sponsorshipTxHash, sponsorshipIndex);
-    }
-
-    // Select a random UTXO that is not used
-    while (selectedUtxo === undefined && utxosAvailableAsInput.length > 0) {
-      const selectedIndex = Math.floor(
-        Math.random() * utxosAvailableAsInput.length,
-      );
-      const _selectedUtxo = utxosAvailableAsInput[selectedIndex]!;
-      utxosAvailableAsInput.splice(selectedIndex, 1);
-
-      const isUtxoUsed = await this.dbGetIfUtxoUsed(
-        config.projectWalletId,
-        _selectedUtxo.input.txHash,
-        _selectedUtxo.input.outputIndex,
-      );
+    const selectedUtxo = await this.step("select-utxo", config, async () => {
+      let sponsorUtxo: UTxO | undefined = undefined;
+
+      // If we just prepared the UTXOs, we can use the sponsorship tx hash as input
+      if (sponsorshipTxHash !== undefined && sponsorshipIndex !== undefined) {
+        sponsorUtxo = {
+          input: {
+            txHash: sponsorshipTxHash,
+            outputIndex: sponsorshipIndex,
+          },
+          output: {
+            amount: [
+              {
+                unit: "lovelace",
+                quantity: (config.utxoAmount * 1000000).toString(),
+              },
+            ],
+            address: sponsorshipWalletAddress as string,
+          },
+        };
 
-      if (!isUtxoUsed) {
-        selectedUtxo = _selectedUtxo;
+        // and mark this as used
         await this.dbAppendUtxosUsed(
           config,
-          selectedUtxo.input.txHash,
-          selectedUtxo.input.outputIndex,
+          sponsorshipTxHash,
+          sponsorshipIndex,
         );
       }
-    }
 
-    if (selectedUtxo) {
-      let _rebuiltTxHex: string | undefined = undefined;
-
-      // try build transaction with the selected UTXO
-      try {
-        const body: SponsorshipTxParserPostRequestBody = {
-          txHex,
-          address: sponsorshipWalletAddress,
-          utxos: JSON.stringify(sponsorshipWalletUtxos),
-          sponsorUtxo: JSON.stringify(selectedUtxo),
-          network: this.sdk.network,
-        };
+      // Select a random UTXO that is not used
+      while (sponsorUtxo === undefined && utxosAvailableAsInput.length > 0) {
+        const selectedIndex = Math.floor(
+          Math.random() * utxosAvailableAsInput.length,
+        );
+        const _selectedUtxo = utxosAvailableAsInput[selectedIndex]!;
+        utxosAvailableAsInput.splice(selectedIndex, 1);
 
-        const { data, status } = await this.sdk.axiosInstance.post(
-          `api/sponsorship/tx-parser`,
-          body,
+        const isUtxoUsed = await this.dbGetIfUtxoUsed(
+          config.projectWalletId,
+          _selectedUtxo.input.txHash,
+          _selectedUtxo.input.outputIndex,
         );
-        if (status !== 200) {
-          throw new Error("Failed to parse Tx on server!");
+
+        if (!isUtxoUsed) {
+          sponsorUtxo = _selectedUtxo;
+          await this.dbAppendUtxosUsed(
+            config,
+            sponsorUtxo.input.txHash,
+            sponsorUtxo.input.outputIndex,
+          );
         }
+      }
 
-        const { rebuiltTxHex } = data;
-        _rebuiltTxHex = rebuiltTxHex;
-      } catch (error) {
-        // if this fails, it means the UTXO could be used, so we pull from `refreshTxHash` and try again
+      return sponsorUtxo;
+    });
 
-        const { data: resRefreshTxHash, status: refreshStatus } =
-          await this.sdk.axiosInstance.get(
-            `api/sponsorship/${config.id}/refreshTxHash`,
+    if (selectedUtxo) {
+      const rebuiltTxHex = await this.step("rebuild-tx", config, async () => {
+        let _rebuiltTxHex: string | undefined = undefined;
+
+        // try build transaction with the selected UTXO
+        try {
+          const body: SponsorshipTxParserPostRequestBody = {
+            txHex,
+            address: sponsorshipWalletAddress,
+            utxos: JSON.stringify(sponsorshipWalletUtxos),
+            sponsorUtxo: JSON.stringify(selectedUtxo),
+            network: this.sdk.networkProfile.apiNetwork,
+          };
+
+          const { data } = await this.sdk.transport.post(
+            `api/sponsorship/tx-parser`,
+            body,
           );
 
-        if (refreshStatus !== 200 || !resRefreshTxHash.refreshTxHash) {
-          throw new Error("Failed to get refresh transaction hash");
-        }
+          const { rebuiltTxHex } = data;
+          _rebuiltTxHex = rebuiltTxHex;
+        } catch (error) {
+          // if this fails, it means the UTXO could be used, so we pull from `refreshTxHash` and try again
 
-        const txHash = resRefreshTxHash.refreshTxHash as string;
+          const { data: resRefreshTxHash } = await this.sdk.transport.get(
+            `api/sponsorship/${config.id}/refreshTxHash`,
+          );
 
-        let hasFoundUsableUtxo = false;
+          if (!resRefreshTxHash.refreshTxHash) {
+            throw new Error("Failed to get refresh transaction hash");
+          }
 
-        // Try multiple output indices until finding an unused one
-        for (
-          let attempt = 0;
-          attempt < config.numUtxosPrepare && !hasFoundUsableUtxo;
-          attempt++
-        ) {
-          // Select a random output index
-          const selectedIndex = Math.floor(
-            Math.random() * config.numUtxosPrepare,
-          );
+          const txHash = resRefreshTxHash.refreshTxHash as string;
 
-          try {
-            // Check if this UTXO is already used
-            const isUtxoUsed = await this.dbGetIfUtxoUsed(
-              config.projectWalletId,
-              txHash,
-              selectedIndex,
+          let hasFoundUsableUtxo = false;
+
+          // Try multiple output indices until finding an unused one
+          for (
+            let attempt = 0;
+            attempt < config.numUtxosPrepare && !hasFoundUsableUtxo;
+            attempt++
+          ) {
+            // Select a random output index
+            const selectedIndex = Math.floor(
+              Math.random() * config.numUtxosPrepare,
             );
 
-            if (!isUtxoUsed) {
-              await this.dbAppendUtxosUsed(config, txHash, selectedIndex);
-
-              // Create a new UTXO
-              const newSelectedUtxo: UTxO = {
-                input: {
-                  txHash: txHash,
-                  outputIndex: selectedIndex,
-                },
-                output: {
-                  amount: [
-                    {
-                      unit: "lovelace",
-                      quantity: (config.utxoAmount * 1000000).toString(),
-                    },
-                  ],
-                  address: sponsorshipWalletAddress as string,
-                },
-              };
-
-              // Try to rebuild the transaction with this UTXO
-              const body: SponsorshipTxParserPostRequestBody = {
-                txHex,
-                address: sponsorshipWalletAddress,
-                utxos: JSON.stringify(sponsorshipWalletUtxos),
-                sponsorUtxo: JSON.stringify(newSelectedUtxo),
-                network: this.sdk.network,
-              };
-
-              const { data, status } = await this.sdk.axiosInstance.post(
-                `api/sponsorship/tx-parser`,
-                body,
+            try {
+              // Check if this UTXO is already used
+              const isUtxoUsed = await this.dbGetIfUtxoUsed(
+                config.projectWalletId,
+                txHash,
+                selectedIndex,
               );
 
-              if (status === 200) {
+              if (!isUtxoUsed) {
+                await this.dbAppendUtxosUsed(config, txHash, selectedIndex);
+
+                // Create a new UTXO
+                const newSelectedUtxo: UTxO = {
+                  input: {
+                    txHash: txHash,
+                    outputIndex: selectedIndex,
+                  },
+                  output: {
+                    amount: [
+                      {
+                        unit: "lovelace",
+                        quantity: (config.utxoAmount * 1000000).toString(),
+                      },
+                    ],
+                    address: sponsorshipWalletAddress as string,
+                  },
+                };
+
+                // Try to rebuild the transaction with this UTXO
+                const body: SponsorshipTxParserPostRequestBody = {
+                  txHex,
+                  address: sponsorshipWalletAddress,
+                  utxos: JSON.stringify(sponsorshipWalletUtxos),
+                  sponsorUtxo: JSON.stringify(newSelectedUtxo),
+                  network: this.sdk.networkProfile.apiNetwork,
+                };
+
+                const { data } = await this.sdk.transport.post(
+                  `api/sponsorship/tx-parser`,
+                  body,
+                );
+
                 _rebuiltTxHex = data.rebuiltTxHex;
                 hasFoundUsableUtxo = true;
                 break;
               }
-            }
-          } catch (innerError) {}
+            } catch (innerError) {}
+          }
         }
-      }
 
-      if (_rebuiltTxHex == undefined) {
-        throw new Error("Failed to rebuild transaction with selected UTXO.");
-      }
+        if (_rebuiltTxHex == undefined) {
+          throw new Error("Failed to rebuild transaction with selected UTXO.");
+        }
+
+        return _rebuiltTxHex;
+      });
 
-      const signedRebuiltTxHex = await sponsorWallet.signTx(
-        _rebuiltTxHex,
-        true,
+      const signedRebuiltTxHex = await this.step("sign", config, () =>
+        sponsorWallet.signTx(rebuiltTxHex, true),
       );
       return signedRebuiltTxHex;
     }
@@ -338,9 +378,32 @@ export class Sponsorship {
     throw new Error("No available UTXOs to sponsor the transaction.");
   }
 
+  /**
+   * Runs one step of the sponsorship flow and reports it as a `sponsorship-step` event.
+   */
+  private step<T>(
+    step: Web3SdkSponsorshipStep,
+    config: SponsorshipConfig,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return timed(fn, (durationMs, error) =>
+      this.sdk.emit({
+        type: "sponsorship-step",
+        step,
+        sponsorshipId: config.id,
+        durationMs,
+        error,
+      }),
+    );
+  }
+
   private async getSponsorWallet(projectWalletId: string) {
-    const networkId = this.sdk.network === "mainnet" ? 1 : 0;
-    const wallet = await this.sdk.wallet.getWallet(projectWalletId, networkId);
+    const wallet = await this.sdk.wallet.getWallet(
+      projectWalletId,
+      this.sdk.networkProfile.cardano.networkId,
+      false,
+      { chains: { bitcoin: false, spark: false } },
+    );
     return wallet.wallet;
   }
 
@@ -484,7 +547,7 @@ export class Sponsorship {
     const signedTx = await wallet.signTx(unsignedTx);
     const txHash = await this.sdk.providerSubmitter!.submitTx(signedTx);
 
-    await this.sdk.axiosInstance.post(
+    await this.sdk.transport.post(
       `api/sponsorship/${config.id}/refreshTxHash`,
       {
         txHash: txHash,
@@ -499,15 +562,11 @@ export class Sponsorship {
    */
 
   private async dbGetIsPendingUtxo(projectWalletId: string) {
-    const { data, status } = await this.sdk.axiosInstance.get(
+    const { data } = await this.sdk.transport.get(
       `api/sponsorship/output/${projectWalletId}/pending`,
     );
 
-    if (status === 200) {
-      return data as SponsorshipOutput[];
-    }
-
-    throw new Error("Failed to get pending UTXOs");
+    return data as SponsorshipOutput[];
   }
 
   private async dbGetIfUtxoUsed(
@@ -515,16 +574,12 @@ export class Sponsorship {
     txHash: string,
     outputIndex: number,
   ) {
-    const { data, status } = await this.sdk.axiosInstance.get(
+    const { data } = await this.sdk.transport.get(
       `api/sponsorship/output/${projectWalletId}/${txHash}/${outputIndex}`,
     );
 
-    if (status === 200) {
-      const output = data as SponsorshipOutput;
-      return output ? output.isSpent : false;
-    }
-
-    throw new Error("Failed to check if UTXO is used");
+    const output = data as SponsorshipOutput | null;
+    return output ? output.isSpent : false;
   }
 
   private async dbUpdateUtxos(
@@ -534,7 +589,7 @@ export class Sponsorship {
     isPending: boolean = true,
     isSpent: boolean = false,
   ) {
-    const { data, status } = await this.sdk.axiosInstance.put(
+    const { data } = await this.sdk.transport.put(
       `api/sponsorship/output/${projectWalletId}/${txHash}/${outputIndex}`,
       {
         isPending,
@@ -542,11 +597,7 @@ export class Sponsorship {
       },
     );
 
-    if (status === 200) {
-      return data as SponsorshipOutput;
-    }
-
-    throw new Error("Failed to mark UTXO as used");
+    return data as SponsorshipOutput;
   }
 
   private async dbAppendUtxosUsed(
@@ -0,0 +1,167 @@
+import type {
+  Web3SdkRequestConfig,
+  Web3SdkResponse,
+  Web3SdkTransport,
+} from ".";
+import {
+  Web3SdkNetworkError,
+  Web3SdkNotFoundError,
+  Web3SdkRateLimitedError,
+  Web3SdkServerError,
+  Web3SdkUnauthorizedError,
+} from "../errors";
+import { IDEMPOTENCY_KEY_HEADER, Web3SdkHttpClient } from "./http-client";
+
+function scriptedTransport(
+  responses: (Web3SdkResponse | Error)[],
+  calls: Web3SdkRequestConfig[] = [],
+): Web3SdkTransport {
+  const next = async (config?: Web3SdkRequestConfig) => {
+    calls.push(config ?? {});
+    const res = responses.shift()!;
+    if (res instanceof Error) throw res;
+    return res;
+  };
+  return {
+    get: async (_url, config) => next(config),
+    post: async (_url, _data, config) => next(config),
+    put: async (_url, _data, config) => next(config),
+    delete: async (_url, config) => next(config),
+  };
+}
+
+const noDelay = { minDelayMs: 0, maxDelayMs: 0 };
+
+describe("Web3SdkHttpClient", () => {
+  it.each([
+    [404, Web3SdkNotFoundError],
+    [401, Web3SdkUnauthorizedError],
+    [403, Web3SdkUnauthorizedError],
+    [429, Web3SdkRateLimitedError],
+    [500, Web3SdkServerError],
+  ])("maps status %i to a typed error", async (status, ErrorClass) => {
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport([{ status, data: { error: "nope" } }]),
+      retry: false,
+    });
+
+    const error = await client.get("api/project/1").catch((e) => e);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.status).toBe(status);
+    expect(error.route).toBe("api/project/1");
+    expect(error.data).toEqual({ error: "nope" });
+  });
+
+  it("wraps transport failures in a network error", async () => {
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport([new Error("ECONNRESET")]),
+      retry: false,
+    });
+
+    const error = await client.get("api/project/1").catch((e) => e);
+    expect(error).toBeInstanceOf(Web3SdkNetworkError);
+    expect(error.cause.message).toBe("ECONNRESET");
+  });
+
+  it("retries transient failures with the same idempotency key", async () => {
+    const calls: Web3SdkRequestConfig[] = [];
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport(
+        [
+          { status: 503, data: null },
+          new Error("socket hang up"),
+          { status: 200, data: { id: "wallet" } },
+        ],
+        calls,
+      ),
+      retry: { retries: 2, ...noDelay },
+    });
+
+    const res = await client.post("api/project-wallet", {});
+    expect(res.data).toEqual({ id: "wallet" });
+    expect(calls).toHaveLength(3);
+
+    const keys = calls.map(
+      (config) => config.headers?.[IDEMPOTENCY_KEY_HEADER],
+    );
+    expect(keys[0]).toBeDefined();
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it("does not retry client errors", async () => {
+    const calls: Web3SdkRequestConfig[] = [];
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport([{ status: 404, data: null }], calls),
+      retry: { retries: 3, ...noDelay },
+    });
+
+    await expect(client.get("api/project/1")).rejects.toBeInstanceOf(
+      Web3SdkNotFoundError,
+    );
+    expect(calls).toHaveLength(1);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const calls: Web3SdkRequestConfig[] = [];
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport(
+        [
+          { status: 502, data: null },
+          { status: 502, data: null },
+        ],
+        calls,
+      ),
+      retry: { retries: 1, ...noDelay },
+    });
+
+    await expect(client.get("api/project/1")).rejects.toBeInstanceOf(
+      Web3SdkServerError,
+    );
+    expect(calls).toHaveLength(2);
+  });
+
+  it("reads the wait from Retry-After on 429 and 503", async () => {
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport([
+        { status: 429, data: null, headers: { "Retry-After": "2" } },
+        {
+          status: 503,
+          data: null,
+          headers: {
+            "retry-after": new Date(Date.now() + 60_000).toUTCString(),
+          },
+        },
+        { status: 500, data: null, headers: { "retry-after": "2" } },
+      ]),
+      retry: false,
+    });
+
+    const rateLimited = await client.get("api/project/1").catch((e) => e);
+    expect(rateLimited).toBeInstanceOf(Web3SdkRateLimitedError);
+    expect(rateLimited.retryAfterMs).toBe(2000);
+
+    const unavailable = await client.get("api/project/1").catch((e) => e);
+    expect(unavailable.retryAfterMs).toBeGreaterThan(50_000);
+
+    const failed = await client.get("api/project/1").catch((e) => e);
+    expect(failed.retryAfterMs).toBeUndefined();
+  });
+
+  it("waits as long as Retry-After asks, up to the max delay", async () => {
+    const client = new Web3SdkHttpClient({
+      transport: scriptedTransport([
+        { status: 429, data: null, headers: { "retry-after": "120" } },
+        { status: 200, data: { ok: true } },
+      ]),
+      retry: { retries: 1, minDelayMs: 0, maxDelayMs: 50 },
+    });
+
+    const start = Date.now();
+    await expect(client.get("api/project/1")).resolves.toMatchObject({
+      status: 200,
+    });
+    const elapsed = Date.now() - start;
+    expect(elapsed).toBeGreaterThanOrEqual(45);
+    expect(elapsed).toBeLessThan(1000);
+  });
+});
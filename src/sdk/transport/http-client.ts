@@ -0,0 +1,266 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Web3SdkRequestConfig,
+  Web3SdkResponse,
+  Web3SdkTransport,
+} from ".";
+import {
+  errorFromResponse,
+  Web3SdkError,
+  Web3SdkNetworkError,
+  Web3SdkRateLimitedError,
+  Web3SdkServerError,
+} from "../errors";
+import type { Web3SdkEventListener } from "../instrumentation";
+import { Web3SdkRequestSigner } from "./signing";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export type Web3SdkRetryPolicy = {
+  /** Number of retries after the first attempt. */
+  retries: number;
+  /** Delay before the first retry, doubled on every following retry. */
+  minDelayMs: number;
+  /** Upper bound for the delay between two attempts, also caps the wait asked for by a `Retry-After` header. */
+  maxDelayMs: number;
+  /** Decides whether a failed attempt is retried, defaults to network, rate limit and server errors. */
+  shouldRetry?: (error: Web3SdkError, attempt: number) => boolean;
+};
+
+export const DEFAULT_RETRY_POLICY: Web3SdkRetryPolicy = {
+  retries: 2,
+  minDelayMs: 250,
+  maxDelayMs: 4000,
+};
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+function isRetryable(error: Web3SdkError) {
+  return (
+    error instanceof Web3SdkNetworkError ||
+    error instanceof Web3SdkRateLimitedError ||
+    error instanceof Web3SdkServerError
+  );
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The `Web3SdkHttpClient` wraps a `Web3SdkTransport` and is what `Web3Sdk` uses for every backend call.
+ * Non-2xx responses and transport failures are raised as typed `Web3SdkError`s, and transient failures
+ * are retried with exponential backoff, or after the wait a 429 or 503 asks for in its `Retry-After` header.
+ *
+ * POST and PUT requests carry an `Idempotency-Key` header that stays the same across retries,
+ * so the backend can recognise a replayed write. Every attempt is reported to `onEvent` as a `request` event.
+ * With a `signer`, every attempt is signed with a fresh timestamp and nonce.
+ */
+export class Web3SdkHttpClient implements Web3SdkTransport {
+  readonly transport: Web3SdkTransport;
+  readonly retryPolicy: Web3SdkRetryPolicy;
+  private readonly headers: Record<string, string>;
+  private readonly signer?: Web3SdkRequestSigner;
+  private readonly onEvent?: Web3SdkEventListener;
+
+  constructor({
+    transport,
+    retry,
+    headers,
+    signer,
+    onEvent,
+  }: {
+    transport: Web3SdkTransport;
+    retry?: Partial<Web3SdkRetryPolicy> | false;
+    /** Headers sent with every request, e.g. the project API key when the transport is shared between projects. */
+    headers?: Record<string, string>;
+    signer?: Web3SdkRequestSigner;
+    onEvent?: Web3SdkEventListener;
+  }) {
+    this.transport = transport;
+    this.headers = headers ?? {};
+    this.signer = signer;
+    this.onEvent = onEvent;
+    this.retryPolicy =
+      retry === false
+        ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+        : { ...DEFAULT_RETRY_POLICY, ...retry };
+  }
+
+  async get<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    return this.request<T>("GET", url, undefined, config);
+  }
+
+  async post<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    return this.request<T>("POST", url, data, withIdempotencyKey(config));
+  }
+
+  async put<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    return this.request<T>("PUT", url, data, withIdempotencyKey(config));
+  }
+
+  async delete<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    return this.request<T>("DELETE", url, undefined, config);
+  }
+
+  /**
+   * Drops the signing key, later requests fail instead of going out unsigned.
+   */
+  dispose() {
+    this.signer?.dispose();
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    requestConfig: Web3SdkRequestConfig | undefined,
+  ): Promise<Web3SdkResponse<T>> {
+    const config = {
+      ...requestConfig,
+      headers: { ...this.headers, ...requestConfig?.headers },
+    };
+    const { retries, minDelayMs, maxDelayMs, shouldRetry } = this.retryPolicy;
+
+    for (let attempt = 0; ; attempt++) {
+      const start = Date.now();
+      try {
+        const res = await this.send<T>(method, url, data, config);
+        this.onEvent?.({
+          type: "request",
+          method,
+          route: url,
+          attempt,
+          status: res.status,
+          durationMs: Date.now() - start,
+        });
+        return res;
+      } catch (error) {
+        this.onEvent?.({
+          type: "request",
+          method,
+          route: url,
+          attempt,
+          status: error instanceof Web3SdkError ? error.status : undefined,
+          durationMs: Date.now() - start,
+          error,
+        });
+
+        if (!(error instanceof Web3SdkError)) throw error;
+
+        const retryable = shouldRetry
+          ? shouldRetry(error, attempt)
+          : isRetryable(error);
+        if (!retryable || attempt >= retries) throw error;
+
+        const retryAfterMs =
+          error instanceof Web3SdkRateLimitedError ||
+          error instanceof Web3SdkServerError
+            ? error.retryAfterMs
+            : undefined;
+        if (retryAfterMs !== undefined) {
+          await sleep(Math.min(maxDelayMs, retryAfterMs));
+        } else {
+          const delay = Math.min(maxDelayMs, minDelayMs * 2 ** attempt);
+          await sleep(Math.random() * delay);
+        }
+      }
+    }
+  }
+
+  private async send<T>(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    requestConfig: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>> {
+    let res: Web3SdkResponse<T>;
+
+    const config = this.signer
+      ? {
+          ...requestConfig,
+          headers: {
+            ...requestConfig.headers,
+            ...(await this.signer.sign({ method, url, body: data })),
+          },
+        }
+      : requestConfig;
+
+    try {
+      switch (method) {
+        case "GET":
+          res = await this.transport.get<T>(url, config);
+          break;
+        case "POST":
+          res = await this.transport.post<T>(url, data, config);
+          break;
+        case "PUT":
+          res = await this.transport.put<T>(url, data, config);
+          break;
+        case "DELETE":
+          res = await this.transport.delete<T>(url, config);
+          break;
+      }
+    } catch (error) {
+      if (error instanceof Web3SdkError) throw error;
+      throw new Web3SdkNetworkError({ method, route: url, cause: error });
+    }
+
+    if (res.status < 200 || res.status >= 300) {
+      throw errorFromResponse({
+        method,
+        route: url,
+        status: res.status,
+        data: res.data,
+        retryAfterMs:
+          res.status === 429 || res.status === 503
+            ? parseRetryAfter(headerValue(res.headers, "retry-after"))
+            : undefined,
+      });
+    }
+
+    return res;
+  }
+}
+
+function withIdempotencyKey(
+  config: Web3SdkRequestConfig | undefined,
+): Web3SdkRequestConfig {
+  if (config?.headers?.[IDEMPOTENCY_KEY_HEADER]) {
+    return config;
+  }
+  return {
+    ...config,
+    headers: { ...config?.headers, [IDEMPOTENCY_KEY_HEADER]: uuidv4() },
+  };
+}
+
+function headerValue(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    if (key.toLowerCase() === name) return value;
+  }
+  return undefined;
+}
@@ -0,0 +1,104 @@
+import { AxiosInstance, AxiosResponse } from "axios";
+
+export type Web3SdkRequestConfig = {
+  headers?: Record<string, string>;
+};
+
+export type Web3SdkResponse<T = any> = {
+  data: T;
+  status: number;
+  /** Response headers, the client reads `Retry-After` from them. */
+  headers?: Record<string, string>;
+};
+
+/**
+ * The `Web3SdkTransport` interface is the HTTP layer used by `Web3Sdk` to reach the UTXOS backend.
+ * Every backend call made by the SDK goes through one of these methods, so an alternative
+ * implementation (e.g. `Web3SdkMockBackend`) can be injected to run the SDK without a live backend.
+ */
+export interface Web3SdkTransport {
+  get<T = any>(
+    url: string,
+    config?: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>>;
+  post<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>>;
+  put<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>>;
+  delete<T = any>(
+    url: string,
+    config?: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>>;
+}
+
+/**
+ * The default transport, backed by an axios instance pointed at the UTXOS app URL.
+ * Responses are returned whatever their status, error handling is left to `Web3SdkHttpClient`.
+ */
+export class AxiosTransport implements Web3SdkTransport {
+  readonly axiosInstance: AxiosInstance;
+
+  constructor(axiosInstance: AxiosInstance) {
+    this.axiosInstance = axiosInstance;
+  }
+
+  async get<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    const res = await this.axiosInstance.get<T>(url, {
+      ...config,
+      validateStatus: () => true,
+    });
+    return toResponse(res);
+  }
+
+  async post<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    const res = await this.axiosInstance.post<T>(url, data, {
+      ...config,
+      validateStatus: () => true,
+    });
+    return toResponse(res);
+  }
+
+  async put<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    const res = await this.axiosInstance.put<T>(url, data, {
+      ...config,
+      validateStatus: () => true,
+    });
+    return toResponse(res);
+  }
+
+  async delete<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    const res = await this.axiosInstance.delete<T>(url, {
+      ...config,
+      validateStatus: () => true,
+    });
+    return toResponse(res);
+  }
+}
+
+function toResponse<T>(res: AxiosResponse<T>): Web3SdkResponse<T> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(res.headers ?? {})) {
+    if (typeof value === "string") {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+  return { data: res.data, status: res.status, headers };
+}
+
+export * from "./http-client";
+export * from "./mock-backend";
+export * from "./signing";
@@ -0,0 +1,140 @@
+import { UTxO } from "@meshsdk/common";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { Web3Sdk } from "..";
+import { generateSigningKeyPair } from "../../functions";
+import { Web3SdkUnauthorizedError } from "../errors";
+import { createRequestVerifier } from "./signing";
+import { Web3SdkMockBackend } from "./mock-backend";
+import { mockFetcher, mockSdk } from "./mock-fixtures";
+
+const txHash =
+  "5a1edf7da58eff2059030abd456947a96cb2d16b9d8c3822ffff58d167ed8bfc";
+
+async function setup() {
+  const utxos: Record<string, UTxO[]> = {};
+  const { sdk, backend } = await mockSdk({
+    fetcher: mockFetcher({
+      fetchAddressUTxOs: async (address: string) => utxos[address] ?? [],
+    }),
+  });
+
+  return { sdk, backend, utxos };
+}
+
+describe("Web3SdkMockBackend", () => {
+  it("creates wallets and looks them up by id and tag", async () => {
+    const { sdk, backend } = await setup();
+
+    const created = await sdk.wallet.createWallet({ tags: ["treasury"] });
+    await sdk.wallet.createWallet({ tags: ["deposit"] });
+
+    expect(backend.wallets).toHaveLength(2);
+    expect(await sdk.wallet.getWallets()).toHaveLength(2);
+
+    const byTag = await sdk.wallet.getWalletsByTag("treasury");
+    expect(byTag.map((wallet) => wallet.id)).toEqual([created.id]);
+
+    expect(created.bitcoinTestnetPubKeyHash).toMatch(/^0[23][0-9a-f]{64}$/);
+    expect(created.sparkMainnetPubKeyHash).toBeNull();
+
+    const { info, wallet, bitcoinWallet, sparkWallet } =
+      await sdk.wallet.getWallet(created.id, 0, true);
+    expect(info.key.split(" ")).toHaveLength(24);
+    const addresses = await wallet.getAddresses();
+    expect(addresses.baseAddressBech32).toMatch(/^addr_test1/);
+    expect(bitcoinWallet!.getPublicKey()).toBe(
+      created.bitcoinTestnetPubKeyHash,
+    );
+    expect(sparkWallet).toBeUndefined();
+
+    // the stored key stays encrypted
+    expect(backend.wallets[0]!.key).not.toEqual(info.key);
+  });
+
+  it("returns 404 for unknown routes and resources", async () => {
+    const { backend } = await setup();
+
+    expect((await backend.get("api/unknown")).status).toBe(404);
+    expect((await backend.get("api/project/other")).status).toBe(404);
+    expect(
+      (await backend.get("api/project-wallet/project-1/nope")).status,
+    ).toBe(404);
+  });
+
+  it("rejects unsigned requests when a verifier is configured", async () => {
+    const { sdk, backend } = await setup();
+    const signingKey = await generateSigningKeyPair();
+
+    const verifyingBackend = new Web3SdkMockBackend({
+      project: backend.project,
+      verifier: createRequestVerifier({ publicKey: signingKey.publicKey }),
+    });
+
+    const unsigned = new Web3Sdk({
+      projectId: sdk.projectId,
+      apiKey: sdk.apiKey,
+      network: "testnet",
+      transport: verifyingBackend,
+      retry: false,
+    });
+    await expect(unsigned.getProject()).rejects.toBeInstanceOf(
+      Web3SdkUnauthorizedError,
+    );
+
+    const signed = new Web3Sdk({
+      projectId: sdk.projectId,
+      apiKey: sdk.apiKey,
+      network: "testnet",
+      keyCustody: sdk.keyCustody,
+      signingKey: signingKey.privateKey,
+      transport: verifyingBackend,
+    });
+    await signed.wallet.createWallet({ tags: ["signed"] });
+    expect(verifyingBackend.wallets).toHaveLength(1);
+  });
+
+  it("sponsors a transaction and reserves the sponsor UTxO", async () => {
+    const { sdk, backend, utxos } = await setup();
+
+    const sponsorWallet = await sdk.wallet.createWallet();
+    const { wallet } = await sdk.wallet.getWallet(sponsorWallet.id, 0);
+    const address = await wallet.getChangeAddress();
+
+    utxos[address] = [0, 1, 2].map((outputIndex) => ({
+      input: { txHash, outputIndex },
+      output: {
+        address,
+        amount: [{ unit: "lovelace", quantity: "5000000" }],
+      },
+    }));
+
+    backend.sponsorships.push({
+      id: "sponsorship-1",
+      projectId: "project-1",
+      projectWalletId: sponsorWallet.id,
+      numUtxosTriggerPrepare: 1,
+      numUtxosPrepare: 10,
+      utxoAmount: 5,
+      sponsorshipInfo: null,
+    });
+
+    const unsignedTx = await new MeshTxBuilder()
+      .txIn(txHash, 0, [{ unit: "lovelace", quantity: "5000000" }], address, 0)
+      .changeAddress(address)
+      .complete();
+
+    const res = await sdk.sponsorship.sponsorTx({
+      sponsorshipId: "sponsorship-1",
+      tx: unsignedTx,
+    });
+
+    expect(res.success).toBe(true);
+    expect(backend.sponsorshipOutputs).toHaveLength(1);
+    expect(backend.sponsorshipOutputs[0]).toMatchObject({
+      projectWalletId: sponsorWallet.id,
+      txHash,
+      isPending: true,
+      isSpent: false,
+    });
+  });
+});
@@ -0,0 +1,880 @@
+import type {
+  Web3SdkRequestConfig,
+  Web3SdkResponse,
+  Web3SdkTransport,
+} from ".";
+import { v4 as uuidv4 } from "uuid";
+import { IDEMPOTENCY_KEY_HEADER } from "./http-client";
+import type { Web3SdkRequestVerifier } from "./signing";
+import type { SponsorshipConfig, SponsorshipOutput } from "../sponsorship";
+import type { AuditLogEntry } from "../audit-log";
+import { toPublicProject } from "../project/views";
+import {
+  SponsorshipTxParserPostRequestBody,
+  Web3Project,
+  Web3ProjectCredits,
+  Web3ProjectUpdate,
+  Web3ProjectUsage,
+  Web3MintingPolicy,
+  Web3ProjectWallet,
+  Web3ProjectWalletPage,
+  Web3ProjectWalletTagsUpdate,
+  Web3ProjectWalletUpdate,
+  Web3UsageFeature,
+} from "../../types";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+type RouteHandler = (
+  params: string[],
+  body: any,
+  query: URLSearchParams,
+) => Web3SdkResponse | Promise<Web3SdkResponse>;
+
+type Route = {
+  method: HttpMethod;
+  pattern: RegExp;
+  handler: RouteHandler;
+};
+
+export type Web3SdkMockSponsorship = SponsorshipConfig & {
+  refreshTxHash?: string | null;
+};
+
+export type Web3SdkMockBackendOptions = {
+  project: Web3Project;
+  wallets?: Web3ProjectWallet[];
+  sponsorships?: Web3SdkMockSponsorship[];
+  /** Credits charged per wallet creation and per sponsored transaction, taken from `project.credits`. Free by default. */
+  creditCosts?: Web3ProjectCredits["costs"];
+  /**
+   * Called for `api/sponsorship/tx-parser`, returns the rebuilt transaction.
+   * Defaults to returning the submitted transaction unchanged.
+   */
+  txParser?: (
+    body: SponsorshipTxParserPostRequestBody,
+  ) => string | Promise<string>;
+  /** When set, requests without a valid signature are rejected with 401, see `createRequestVerifier`. */
+  verifier?: Web3SdkRequestVerifier;
+};
+
+function ok<T>(data: T): Web3SdkResponse<T> {
+  return { data, status: 200 };
+}
+
+function notFound(): Web3SdkResponse {
+  return { data: { error: "Not found" }, status: 404 };
+}
+
+/**
+ * The `Web3SdkMockBackend` is an in-memory implementation of every backend route called by `Web3Sdk`.
+ * Inject it as the `transport` of a `Web3Sdk` to run wallet and sponsorship flows without network access.
+ *
+ * Request and response bodies are JSON round-tripped, so callers never share references with the stored state.
+ * Writes that carry an `Idempotency-Key` header are answered once and replayed on retries.
+ */
+export class Web3SdkMockBackend implements Web3SdkTransport {
+  project: Web3Project;
+  wallets: Web3ProjectWallet[];
+  sponsorships: Web3SdkMockSponsorship[];
+  sponsorshipOutputs: SponsorshipOutput[] = [];
+  /** Wallet keys staged by a key rotation, by wallet ID. */
+  stagedKeys = new Map<string, { publicKey: string; key: string }>();
+  /** The encrypted project master seed and the next account index to hand out. */
+  masterSeed: { key: string; nextIndex: number } | undefined;
+  stagedMasterSeed: { publicKey: string; key: string } | undefined;
+  auditLog: AuditLogEntry[] = [];
+  creditCosts: Web3ProjectCredits["costs"];
+  usage: Web3ProjectUsage[] = [];
+
+  private readonly txParser: Web3SdkMockBackendOptions["txParser"];
+  private readonly verifier: Web3SdkMockBackendOptions["verifier"];
+  private readonly routes: Route[];
+  private readonly idempotentResponses = new Map<string, Web3SdkResponse>();
+
+  constructor(options: Web3SdkMockBackendOptions) {
+    this.project = options.project;
+    this.wallets = options.wallets ?? [];
+    this.sponsorships = options.sponsorships ?? [];
+    this.creditCosts = options.creditCosts ?? {};
+    this.txParser = options.txParser;
+    this.verifier = options.verifier;
+
+    this.routes = [
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)$/,
+        handler: ([projectId]) => this.getProject(projectId!),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/public$/,
+        handler: ([projectId]) => this.getPublicProject(projectId!),
+      },
+      {
+        method: "PUT",
+        pattern: /^api\/project\/([^/]+)$/,
+        handler: ([projectId], body) => this.updateProject(projectId!, body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/master-seed$/,
+        handler: ([projectId]) => this.getMasterSeed(projectId!),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project\/([^/]+)\/master-seed$/,
+        handler: ([projectId], body) => this.createMasterSeed(projectId!, body),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project\/([^/]+)\/master-seed\/index$/,
+        handler: ([projectId]) => this.reserveDerivationIndex(projectId!),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/audit-log$/,
+        handler: ([projectId]) => this.getAuditLog(projectId!),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/audit-log\/last$/,
+        handler: ([projectId]) => this.getLastAuditLogEntry(projectId!),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project\/([^/]+)\/audit-log$/,
+        handler: ([projectId], body) =>
+          this.appendAuditLogEntry(projectId!, body),
+      },
+      {
+        method: "PUT",
+        pattern: /^api\/project\/([^/]+)\/key-rotation\/master-seed$/,
+        handler: ([projectId], body) => this.stageMasterSeed(projectId!, body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/key-rotation\/master-seed$/,
+        handler: ([projectId]) => this.getStagedMasterSeed(projectId!),
+      },
+      {
+        method: "PUT",
+        pattern: /^api\/project\/([^/]+)\/key-rotation\/wallet\/([^/]+)$/,
+        handler: ([projectId, walletId], body) =>
+          this.stageKey(projectId!, walletId!, body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project\/([^/]+)\/key-rotation\/wallet\/([^/]+)$/,
+        handler: ([projectId, walletId]) =>
+          this.getStagedKey(projectId!, walletId!),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project\/([^/]+)\/key-rotation\/commit$/,
+        handler: ([projectId], body) =>
+          this.commitKeyRotation(projectId!, body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/usage\/([^/]+)\/credits$/,
+        handler: ([projectId]) => this.getCredits(projectId!),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/usage\/([^/]+)$/,
+        handler: ([projectId], _, query) => this.getUsage(projectId!, query),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project-wallet$/,
+        handler: (_, body) => this.createWallet(body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project-wallet\/([^/]+)$/,
+        handler: ([projectId], _, query) => this.getWallets(projectId!, query),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project-wallet\/([^/]+)\/tag\/([^/]+)$/,
+        handler: ([projectId, tag], _, query) =>
+          this.getWalletsByTag(projectId!, tag!, query),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project-wallet\/([^/]+)\/page$/,
+        handler: ([projectId], _, query) =>
+          this.getWalletPage(projectId!, query),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/project-wallet\/([^/]+)\/([^/]+)$/,
+        handler: ([projectId, walletId]) =>
+          this.getWallet(projectId!, walletId!),
+      },
+      {
+        method: "PUT",
+        pattern: /^api\/project-wallet\/([^/]+)\/([^/]+)$/,
+        handler: ([projectId, walletId], body) =>
+          this.updateWallet(projectId!, walletId!, body),
+      },
+      {
+        method: "DELETE",
+        pattern: /^api\/project-wallet\/([^/]+)\/([^/]+)$/,
+        handler: ([projectId, walletId]) =>
+          this.deleteWallet(projectId!, walletId!),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project-wallet\/([^/]+)\/([^/]+)\/tags$/,
+        handler: ([projectId, walletId], body) =>
+          this.updateWalletTags(projectId!, walletId!, body),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/project-wallet\/([^/]+)\/([^/]+)\/minting-policy$/,
+        handler: ([projectId, walletId], body) =>
+          this.addMintingPolicy(projectId!, walletId!, body),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/sponsorship\/tx-parser$/,
+        handler: (_, body) => this.parseTx(body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/sponsorship\/output\/([^/]+)\/pending$/,
+        handler: ([projectWalletId]) =>
+          this.getPendingOutputs(projectWalletId!),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/sponsorship\/output\/([^/]+)\/([^/]+)\/(\d+)$/,
+        handler: ([projectWalletId, txHash, outputIndex]) =>
+          ok(
+            this.findOutput(projectWalletId!, txHash!, Number(outputIndex)) ??
+              null,
+          ),
+      },
+      {
+        method: "PUT",
+        pattern: /^api\/sponsorship\/output\/([^/]+)\/([^/]+)\/(\d+)$/,
+        handler: ([projectWalletId, txHash, outputIndex], body) =>
+          this.updateOutput(
+            projectWalletId!,
+            txHash!,
+            Number(outputIndex),
+            body,
+          ),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/sponsorship\/([^/]+)\/refreshTxHash$/,
+        handler: ([id]) => this.getRefreshTxHash(id!),
+      },
+      {
+        method: "POST",
+        pattern: /^api\/sponsorship\/([^/]+)\/refreshTxHash$/,
+        handler: ([id], body) => this.setRefreshTxHash(id!, body),
+      },
+      {
+        method: "GET",
+        pattern: /^api\/sponsorship\/([^/]+)$/,
+        handler: ([id]) => this.getSponsorship(id!),
+      },
+    ];
+  }
+
+  async get<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    return this.handle<T>("GET", url, undefined, config);
+  }
+
+  async post<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    return this.handle<T>("POST", url, data, config);
+  }
+
+  async put<T = any>(
+    url: string,
+    data?: unknown,
+    config?: Web3SdkRequestConfig,
+  ) {
+    return this.handle<T>("PUT", url, data, config);
+  }
+
+  async delete<T = any>(url: string, config?: Web3SdkRequestConfig) {
+    return this.handle<T>("DELETE", url, undefined, config);
+  }
+
+  protected async handle<T>(
+    method: HttpMethod,
+    url: string,
+    data: unknown,
+    config?: Web3SdkRequestConfig,
+  ): Promise<Web3SdkResponse<T>> {
+    if (this.verifier) {
+      const result = await this.verifier({
+        method,
+        url,
+        body: data,
+        headers: config?.headers ?? {},
+      });
+      if (!result.valid) {
+        return {
+          data: { error: result.reason },
+          status: 401,
+        } as Web3SdkResponse<T>;
+      }
+    }
+
+    const idempotencyKey = config?.headers?.[IDEMPOTENCY_KEY_HEADER];
+    const replay = idempotencyKey
+      ? this.idempotentResponses.get(`${method} ${url} ${idempotencyKey}`)
+      : undefined;
+    if (replay) {
+      return clone(replay) as Web3SdkResponse<T>;
+    }
+
+    const [path, search] = url.replace(/^\/+/, "").split("?");
+    const query = new URLSearchParams(search ?? "");
+    const body = data === undefined ? undefined : clone(data);
+
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path!);
+      if (match === null) continue;
+
+      const params = match.slice(1).map((param) => decodeURIComponent(param));
+      const { data: resData, status } = await route.handler(
+        params,
+        body,
+        query,
+      );
+      const res = { data: clone(resData) as T, status };
+      if (idempotencyKey) {
+        this.idempotentResponses.set(
+          `${method} ${url} ${idempotencyKey}`,
+          clone(res),
+        );
+      }
+      return res;
+    }
+
+    return notFound() as Web3SdkResponse<T>;
+  }
+
+  /**
+   * project
+   */
+
+  private getProject(projectId: string) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    return ok(this.project);
+  }
+
+  private getPublicProject(projectId: string) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    return ok(toPublicProject(this.project));
+  }
+
+  private updateProject(projectId: string, body: Web3ProjectUpdate) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    this.project = { ...this.project, ...body };
+    return ok(this.project);
+  }
+
+  /**
+   * master seed
+   */
+
+  private getMasterSeed(projectId: string) {
+    if (projectId !== this.project.id || this.masterSeed === undefined) {
+      return notFound();
+    }
+    return ok({ key: this.masterSeed.key });
+  }
+
+  private createMasterSeed(projectId: string, body: { key: string }) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    if (this.masterSeed !== undefined) {
+      return { data: { error: "Master seed already exists" }, status: 409 };
+    }
+    this.masterSeed = { key: body.key, nextIndex: 0 };
+    return ok({ key: body.key });
+  }
+
+  private reserveDerivationIndex(projectId: string) {
+    if (projectId !== this.project.id || this.masterSeed === undefined) {
+      return notFound();
+    }
+    return ok({ index: this.masterSeed.nextIndex++ });
+  }
+
+  /**
+   * audit log
+   */
+
+  private getAuditLog(projectId: string) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    return ok(this.auditLog);
+  }
+
+  private getLastAuditLogEntry(projectId: string) {
+    const last = this.auditLog[this.auditLog.length - 1];
+    if (projectId !== this.project.id || last === undefined) {
+      return notFound();
+    }
+    return ok(last);
+  }
+
+  private appendAuditLogEntry(projectId: string, body: AuditLogEntry) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    // append-only: an entry must follow the last stored one
+    if (body.sequence !== this.auditLog.length) {
+      return {
+        data: { error: `Expected sequence ${this.auditLog.length}` },
+        status: 409,
+      };
+    }
+    this.auditLog.push(body);
+    return ok(body);
+  }
+
+  /**
+   * key rotation
+   */
+
+  private stageMasterSeed(
+    projectId: string,
+    body: { publicKey: string; key: string },
+  ) {
+    if (projectId !== this.project.id || this.masterSeed === undefined) {
+      return notFound();
+    }
+    this.stagedMasterSeed = body;
+    return ok(body);
+  }
+
+  private getStagedMasterSeed(projectId: string) {
+    if (projectId !== this.project.id || this.stagedMasterSeed === undefined) {
+      return notFound();
+    }
+    return ok(this.stagedMasterSeed);
+  }
+
+  private stageKey(
+    projectId: string,
+    walletId: string,
+    body: { publicKey: string; key: string },
+  ) {
+    const wallet = this.wallets.find(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    if (wallet === undefined) {
+      return notFound();
+    }
+    this.stagedKeys.set(walletId, body);
+    return ok(body);
+  }
+
+  private getStagedKey(projectId: string, walletId: string) {
+    const staged = this.stagedKeys.get(walletId);
+    if (projectId !== this.project.id || staged === undefined) {
+      return notFound();
+    }
+    return ok(staged);
+  }
+
+  /**
+   * Swaps every wallet key, the master seed and the project public key at once, or nothing if a key is not staged.
+   */
+  private commitKeyRotation(projectId: string, body: { publicKey: string }) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    const wallets = this.wallets.filter(
+      (wallet) =>
+        wallet.projectId === projectId && wallet.keyType !== "derived",
+    );
+    const missing = wallets.filter(
+      (wallet) => this.stagedKeys.get(wallet.id)?.publicKey !== body.publicKey,
+    );
+    if (
+      this.masterSeed !== undefined &&
+      this.stagedMasterSeed?.publicKey !== body.publicKey
+    ) {
+      return { data: { error: "Master seed is not staged" }, status: 409 };
+    }
+    if (missing.length > 0) {
+      return {
+        data: {
+          error: "Wallets without a staged key",
+          walletIds: missing.map((wallet) => wallet.id),
+        },
+        status: 409,
+      };
+    }
+
+    for (const wallet of wallets) {
+      wallet.key = this.stagedKeys.get(wallet.id)!.key;
+    }
+    this.stagedKeys.clear();
+    if (this.masterSeed !== undefined) {
+      this.masterSeed.key = this.stagedMasterSeed!.key;
+      this.stagedMasterSeed = undefined;
+    }
+    this.project.publicKey = body.publicKey;
+    return ok(this.project);
+  }
+
+  /**
+   * usage
+   */
+
+  private getCredits(projectId: string) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    return ok({
+      credits: this.project.credits,
+      costs: this.creditCosts,
+    } as Web3ProjectCredits);
+  }
+
+  private getUsage(projectId: string, query: URLSearchParams) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    const feature = query.get("feature");
+    const from = query.get("from");
+    const to = query.get("to");
+
+    return ok(
+      this.usage
+        .filter(
+          (entry) =>
+            (!feature || entry.feature === feature) &&
+            (!from || new Date(entry.createdAt) >= new Date(from)) &&
+            (!to || new Date(entry.createdAt) < new Date(to)),
+        )
+        .reverse(),
+    );
+  }
+
+  /**
+   * Deducts the cost of an operation, returns a 402 response if the balance does not cover it.
+   */
+  private charge(feature: Web3UsageFeature, reference: string | null) {
+    const cost = this.creditCosts[feature] ?? 0;
+    if (cost === 0) return undefined;
+
+    if (cost > this.project.credits) {
+      return {
+        data: {
+          error: "Insufficient credits",
+          feature,
+          required: cost,
+          available: this.project.credits,
+        },
+        status: 402,
+      };
+    }
+
+    this.project.credits -= cost;
+    this.usage.push({
+      id: uuidv4(),
+      feature,
+      credits: cost,
+      reference,
+      createdAt: new Date(),
+    });
+    return undefined;
+  }
+
+  /**
+   * project wallets
+   */
+
+  private createWallet(body: Web3ProjectWallet) {
+    if (body.projectId !== this.project.id) {
+      return notFound();
+    }
+    if (
+      this.wallets.some(
+        (wallet) =>
+          wallet.id === body.id || wallet.pubKeyHash === body.pubKeyHash,
+      )
+    ) {
+      return { data: { error: "Wallet already exists" }, status: 409 };
+    }
+    const charged = this.charge("wallet", body.id);
+    if (charged) {
+      return charged;
+    }
+    this.wallets.push(body);
+    return ok(body);
+  }
+
+  private getWallets(projectId: string, query: URLSearchParams) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    const includeArchived = query.get("includeArchived") === "true";
+    return ok(
+      this.wallets.filter(
+        (wallet) =>
+          wallet.projectId === projectId &&
+          (includeArchived || !wallet.archivedAt),
+      ),
+    );
+  }
+
+  private getWallet(projectId: string, walletId: string) {
+    const wallet = this.wallets.find(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    return wallet ? ok(wallet) : notFound();
+  }
+
+  private getWalletsByTag(
+    projectId: string,
+    tag: string,
+    query: URLSearchParams,
+  ) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+    const includeArchived = query.get("includeArchived") === "true";
+    return ok(
+      this.wallets.filter(
+        (wallet) =>
+          wallet.projectId === projectId &&
+          wallet.tags.includes(tag) &&
+          (includeArchived || !wallet.archivedAt),
+      ),
+    );
+  }
+
+  private getWalletPage(projectId: string, query: URLSearchParams) {
+    if (projectId !== this.project.id) {
+      return notFound();
+    }
+
+    const tags = query.getAll("tag");
+    const matchAny = query.get("tagMode") === "any";
+    const pubKeyHash = query.get("pubKeyHash");
+    const stakeCredentialHash = query.get("stakeCredentialHash");
+    const includeArchived = query.get("includeArchived") === "true";
+    const limit = Number(query.get("limit") ?? 100);
+    const cursor = query.get("cursor");
+
+    const matches = this.wallets.filter(
+      (wallet) =>
+        wallet.projectId === projectId &&
+        (includeArchived || !wallet.archivedAt) &&
+        (tags.length === 0 ||
+          (matchAny
+            ? tags.some((tag) => wallet.tags.includes(tag))
+            : tags.every((tag) => wallet.tags.includes(tag)))) &&
+        (!pubKeyHash || wallet.pubKeyHash === pubKeyHash) &&
+        (!stakeCredentialHash ||
+          wallet.stakeCredentialHash === stakeCredentialHash),
+    );
+
+    // the cursor is the id of the last wallet of the previous page
+    let start = 0;
+    if (cursor) {
+      start = matches.findIndex((wallet) => wallet.id === cursor) + 1;
+      if (start === 0) {
+        return { data: { error: "Invalid cursor" }, status: 400 };
+      }
+    }
+
+    const wallets = matches.slice(start, start + limit);
+    const hasMore = start + limit < matches.length;
+    return ok({
+      wallets,
+      nextCursor: hasMore ? wallets[wallets.length - 1]!.id : null,
+    } as Web3ProjectWalletPage);
+  }
+
+  private updateWallet(
+    projectId: string,
+    walletId: string,
+    body: Web3ProjectWalletUpdate,
+  ) {
+    const wallet = this.wallets.find(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    if (wallet === undefined) {
+      return notFound();
+    }
+    Object.assign(wallet, body);
+    return ok(wallet);
+  }
+
+  private updateWalletTags(
+    projectId: string,
+    walletId: string,
+    body: Web3ProjectWalletTagsUpdate,
+  ) {
+    const wallet = this.wallets.find(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    if (wallet === undefined) {
+      return notFound();
+    }
+    const remove = new Set(body.remove ?? []);
+    wallet.tags = [...new Set([...wallet.tags, ...(body.add ?? [])])].filter(
+      (tag) => !remove.has(tag),
+    );
+    return ok(wallet);
+  }
+
+  private addMintingPolicy(
+    projectId: string,
+    walletId: string,
+    body: Web3MintingPolicy,
+  ) {
+    const wallet = this.wallets.find(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    if (wallet === undefined) {
+      return notFound();
+    }
+    // appended in place, so policies added concurrently are all kept
+    const existing = wallet.mintingPolicies?.find(
+      (policy) => policy.policyId === body.policyId,
+    );
+    if (existing) {
+      return ok(existing);
+    }
+    wallet.mintingPolicies = [...(wallet.mintingPolicies ?? []), body];
+    return ok(body);
+  }
+
+  private deleteWallet(projectId: string, walletId: string) {
+    const index = this.wallets.findIndex(
+      (wallet) => wallet.projectId === projectId && wallet.id === walletId,
+    );
+    if (index === -1) {
+      return notFound();
+    }
+    const [wallet] = this.wallets.splice(index, 1);
+    return ok(wallet);
+  }
+
+  /**
+   * sponsorship
+   */
+
+  private findSponsorship(id: string) {
+    return this.sponsorships.find(
+      (sponsorship) =>
+        sponsorship.id === id && sponsorship.projectId === this.project.id,
+    );
+  }
+
+  private getSponsorship(id: string) {
+    const sponsorship = this.findSponsorship(id);
+    if (sponsorship === undefined) {
+      return notFound();
+    }
+    const { refreshTxHash, ...config } = sponsorship;
+    return ok(config as SponsorshipConfig);
+  }
+
+  private getRefreshTxHash(id: string) {
+    const sponsorship = this.findSponsorship(id);
+    if (sponsorship === undefined) {
+      return notFound();
+    }
+    return ok({ refreshTxHash: sponsorship.refreshTxHash ?? null });
+  }
+
+  private setRefreshTxHash(id: string, body: { txHash: string }) {
+    const sponsorship = this.findSponsorship(id);
+    if (sponsorship === undefined) {
+      return notFound();
+    }
+    sponsorship.refreshTxHash = body.txHash;
+    return ok({ refreshTxHash: sponsorship.refreshTxHash });
+  }
+
+  private async parseTx(body: SponsorshipTxParserPostRequestBody) {
+    const charged = this.charge("sponsorship", null);
+    if (charged) {
+      return charged;
+    }
+    const rebuiltTxHex = this.txParser ? await this.txParser(body) : body.txHex;
+    return ok({ rebuiltTxHex });
+  }
+
+  private findOutput(
+    projectWalletId: string,
+    txHash: string,
+    outputIndex: number,
+  ) {
+    return this.sponsorshipOutputs.find(
+      (output) =>
+        output.projectWalletId === projectWalletId &&
+        output.txHash === txHash &&
+        output.outputIndex === outputIndex,
+    );
+  }
+
+  private getPendingOutputs(projectWalletId: string) {
+    return ok(
+      this.sponsorshipOutputs.filter(
+        (output) =>
+          output.projectWalletId === projectWalletId &&
+          output.isPending &&
+          !output.isSpent,
+      ),
+    );
+  }
+
+  private updateOutput(
+    projectWalletId: string,
+    txHash: string,
+    outputIndex: number,
+    body: { isPending: boolean; isSpent: boolean },
+  ) {
+    let output = this.findOutput(projectWalletId, txHash, outputIndex);
+    if (output === undefined) {
+      output = {
+        projectWalletId,
+        txHash,
+        outputIndex,
+        createdAt: new Date(),
+        isPending: body.isPending,
+        isSpent: body.isSpent,
+      };
+      this.sponsorshipOutputs.push(output);
+    } else {
+      output.isPending = body.isPending;
+      output.isSpent = body.isSpent;
+    }
+    return ok(output);
+  }
+}
+
+function clone<T>(data: T): T {
+  return data === undefined ? data : JSON.parse(JSON.stringify(data));
+}
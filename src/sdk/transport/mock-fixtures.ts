@@ -0,0 +1,117 @@
+import type { IFetcher, ISubmitter } from "@meshsdk/common";
+import { Web3Sdk } from "..";
+import { generateKeyPair } from "../../functions";
+import type { Web3Project } from "../../types";
+import { Web3SdkMockBackend, Web3SdkMockBackendOptions } from "./mock-backend";
+
+/**
+ * A project to seed `Web3SdkMockBackend` with in tests: active, without OAuth clients or a key pair.
+ *
+ * @param overrides - Fields that differ from the defaults, typically `publicKey`.
+ */
+export function mockProject(overrides: Partial<Web3Project> = {}): Web3Project {
+  return {
+    id: "project-1",
+    name: "Test project",
+    whitelistedUrls: [],
+    isActive: true,
+    credits: 100,
+    discordOauthClient: null,
+    discordOauthSecret: null,
+    twitterOauthClient: null,
+    twitterOauthSecret: null,
+    googleOauthClient: null,
+    googleOauthSecret: null,
+    branding: {},
+    publicKey: null,
+    apiKey: "api-key",
+    ...overrides,
+  };
+}
+
+/**
+ * A `Web3Sdk` on the testnet profile, backed by a `Web3SdkMockBackend` whose project has a fresh key pair.
+ *
+ * @param options.project - Project fields that differ from `mockProject`.
+ * @param options.backend - Mock backend options besides the project, e.g. `creditCosts`.
+ * @param options - Any other option is passed to `Web3Sdk` and overrides the defaults.
+ */
+export async function mockSdk({
+  project: projectOverrides,
+  backend: backendOptions,
+  ...options
+}: Partial<ConstructorParameters<typeof Web3Sdk>[0]> & {
+  project?: Partial<Web3Project>;
+  backend?: Omit<Web3SdkMockBackendOptions, "project">;
+} = {}) {
+  const { publicKey, privateKey } = await generateKeyPair();
+  const project = mockProject({ publicKey, ...projectOverrides });
+  const backend = new Web3SdkMockBackend({ project, ...backendOptions });
+  const sdk = new Web3Sdk({
+    projectId: project.id,
+    apiKey: project.apiKey,
+    network: "testnet",
+    privateKey,
+    transport: backend,
+    ...options,
+  });
+
+  return { sdk, backend, project, privateKey };
+}
+
+function notMocked(method: string) {
+  return async (): Promise<never> => {
+    throw new Error(`${method} is not mocked`);
+  };
+}
+
+/**
+ * A fetcher with the methods a test calls, the others reject when called.
+ */
+export function mockFetcher(
+  methods: Partial<IFetcher> = {},
+): jest.Mocked<IFetcher> {
+  return {
+    fetchAccountInfo: jest.fn(
+      methods.fetchAccountInfo ?? notMocked("fetchAccountInfo"),
+    ),
+    fetchAddressUTxOs: jest.fn(
+      methods.fetchAddressUTxOs ?? notMocked("fetchAddressUTxOs"),
+    ),
+    fetchAddressTxs: jest.fn(
+      methods.fetchAddressTxs ?? notMocked("fetchAddressTxs"),
+    ),
+    fetchAssetAddresses: jest.fn(
+      methods.fetchAssetAddresses ?? notMocked("fetchAssetAddresses"),
+    ),
+    fetchAssetMetadata: jest.fn(
+      methods.fetchAssetMetadata ?? notMocked("fetchAssetMetadata"),
+    ),
+    fetchBlockInfo: jest.fn(
+      methods.fetchBlockInfo ?? notMocked("fetchBlockInfo"),
+    ),
+    fetchCollectionAssets: jest.fn(
+      methods.fetchCollectionAssets ?? notMocked("fetchCollectionAssets"),
+    ),
+    fetchProtocolParameters: jest.fn(
+      methods.fetchProtocolParameters ?? notMocked("fetchProtocolParameters"),
+    ),
+    fetchTxInfo: jest.fn(methods.fetchTxInfo ?? notMocked("fetchTxInfo")),
+    fetchUTxOs: jest.fn(methods.fetchUTxOs ?? notMocked("fetchUTxOs")),
+    fetchGovernanceProposal: jest.fn(
+      methods.fetchGovernanceProposal ?? notMocked("fetchGovernanceProposal"),
+    ),
+    get: jest.fn(methods.get ?? notMocked("get")),
+  };
+}
+
+/**
+ * A submitter backed by the given `submitTx`.
+ */
+export function mockSubmitter(
+  methods: Partial<ISubmitter> = {},
+): jest.Mocked<ISubmitter> {
+  return {
+    submitTx: jest.fn(methods.submitTx ?? notMocked("submitTx")),
+  };
+}
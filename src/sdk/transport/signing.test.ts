@@ -0,0 +1,114 @@
+import { generateSigningKeyPair } from "../../functions";
+import { createRequestVerifier, Web3SdkRequestSigner } from "./signing";
+
+describe("request signing", () => {
+  it("accepts a signed request once", async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair();
+    const signer = new Web3SdkRequestSigner({ privateKey });
+    const verify = createRequestVerifier({ publicKey });
+
+    const body = { tags: ["treasury"] };
+    const headers = await signer.sign({
+      method: "POST",
+      url: "api/project-wallet",
+      body,
+    });
+
+    const request = {
+      method: "POST",
+      url: "/api/project-wallet",
+      body,
+      headers,
+    };
+    expect(await verify(request)).toEqual({ valid: true });
+    expect(await verify(request)).toEqual({
+      valid: false,
+      reason: "Nonce already used",
+    });
+  });
+
+  it("verifies a raw JSON body", async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair();
+    const signer = new Web3SdkRequestSigner({ privateKey });
+    const verify = createRequestVerifier({ publicKey });
+
+    const body = { isPending: true, isSpent: false };
+    const headers = await signer.sign({ method: "PUT", url: "api/x", body });
+
+    expect(
+      await verify({
+        method: "PUT",
+        url: "api/x",
+        body: JSON.stringify(body),
+        headers,
+      }),
+    ).toEqual({ valid: true });
+  });
+
+  it("rejects tampered, unsigned, foreign and stale requests", async () => {
+    const { publicKey, privateKey } = await generateSigningKeyPair();
+    const other = await generateSigningKeyPair();
+    const verify = createRequestVerifier({ publicKey, maxSkewMs: 1000 });
+
+    const headers = await new Web3SdkRequestSigner({ privateKey }).sign({
+      method: "PUT",
+      url: "api/sponsorship/output/w/tx/0",
+      body: { isSpent: false },
+    });
+
+    expect(
+      await verify({
+        method: "PUT",
+        url: "api/sponsorship/output/w/tx/0",
+        body: { isSpent: true },
+        headers,
+      }),
+    ).toEqual({ valid: false, reason: "Body does not match digest" });
+
+    expect(
+      await verify({
+        method: "PUT",
+        url: "api/sponsorship/output/w/tx/1",
+        body: { isSpent: false },
+        headers,
+      }),
+    ).toEqual({ valid: false, reason: "Invalid signature" });
+
+    expect(
+      await verify({ method: "GET", url: "api/project/p", headers: {} }),
+    ).toEqual({ valid: false, reason: "Missing signature headers" });
+
+    const foreignHeaders = await new Web3SdkRequestSigner({
+      privateKey: other.privateKey,
+    }).sign({ method: "GET", url: "api/project/p" });
+    expect(
+      await verify({
+        method: "GET",
+        url: "api/project/p",
+        headers: foreignHeaders,
+      }),
+    ).toEqual({ valid: false, reason: "Invalid signature" });
+
+    const staleHeaders = {
+      ...foreignHeaders,
+      "x-utxos-timestamp": String(Date.now() - 5000),
+    };
+    expect(
+      await verify({
+        method: "GET",
+        url: "api/project/p",
+        headers: staleHeaders,
+      }),
+    ).toEqual({ valid: false, reason: "Timestamp outside allowed window" });
+  });
+
+  it("refuses to sign after dispose", async () => {
+    const { privateKey } = await generateSigningKeyPair();
+    const signer = new Web3SdkRequestSigner({ privateKey });
+    signer.dispose();
+
+    await expect(
+      signer.sign({ method: "GET", url: "api/project/p" }),
+    ).rejects.toThrow("Signing key has been disposed");
+  });
+});
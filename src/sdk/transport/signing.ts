@@ -0,0 +1,219 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  sha256Hex,
+  signWithPrivateKey,
+  verifyWithPublicKey,
+} from "../../functions";
+
+export const SIGNATURE_HEADERS = {
+  timestamp: "x-utxos-timestamp",
+  nonce: "x-utxos-nonce",
+  contentDigest: "x-utxos-content-sha256",
+  signature: "x-utxos-signature",
+} as const;
+
+const DEFAULT_MAX_SKEW_MS = 1000 * 60 * 5; // 5 minutes
+
+export type Web3SdkSignedRequest = {
+  method: string;
+  /** Request path relative to the app URL, with query string, e.g. `api/project/<id>`. */
+  url: string;
+  /** The JSON body, either as the raw string received or as the parsed value. */
+  body?: unknown;
+  headers: Record<string, string | string[] | undefined>;
+};
+
+export type Web3SdkVerifyResult =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * Remembers nonces of accepted requests until they fall outside the allowed clock skew.
+ */
+export interface NonceStore {
+  /** Returns `false` if the nonce was already seen, otherwise stores it until `expiresAt`. */
+  add(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+export class MemoryNonceStore implements NonceStore {
+  private readonly nonces = new Map<string, number>();
+
+  add(nonce: string, expiresAt: number) {
+    const now = Date.now();
+    for (const [seen, expiry] of this.nonces) {
+      if (expiry < now) this.nonces.delete(seen);
+    }
+
+    if (this.nonces.has(nonce)) return false;
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
+
+function normalizeUrl(url: string) {
+  return url.replace(/^\/+/, "");
+}
+
+function serializeBody(body: unknown) {
+  if (body === undefined || body === null || body === "") return "";
+  return typeof body === "string" ? body : JSON.stringify(body);
+}
+
+/**
+ * The string that is signed: method, path, timestamp, nonce and body digest, one per line.
+ */
+export function canonicalRequest({
+  method,
+  url,
+  timestamp,
+  nonce,
+  contentDigest,
+}: {
+  method: string;
+  url: string;
+  timestamp: string;
+  nonce: string;
+  contentDigest: string;
+}) {
+  return [
+    method.toUpperCase(),
+    normalizeUrl(url),
+    timestamp,
+    nonce,
+    contentDigest,
+  ].join("\n");
+}
+
+/**
+ * Signs outgoing requests with the project signing key, see `generateSigningKeyPair`.
+ */
+export class Web3SdkRequestSigner {
+  private privateKey: string | undefined;
+
+  constructor({ privateKey }: { privateKey: string }) {
+    this.privateKey = privateKey;
+  }
+
+  /**
+   * @returns The signature headers to add to the request.
+   */
+  async sign({
+    method,
+    url,
+    body,
+  }: {
+    method: string;
+    url: string;
+    body?: unknown;
+  }): Promise<Record<string, string>> {
+    if (this.privateKey === undefined) {
+      throw new Error("Signing key has been disposed");
+    }
+
+    const timestamp = Date.now().toString();
+    const nonce = uuidv4();
+    const contentDigest = await sha256Hex(serializeBody(body));
+
+    const signature = await signWithPrivateKey({
+      privateKey: this.privateKey,
+      data: canonicalRequest({ method, url, timestamp, nonce, contentDigest }),
+    });
+
+    return {
+      [SIGNATURE_HEADERS.timestamp]: timestamp,
+      [SIGNATURE_HEADERS.nonce]: nonce,
+      [SIGNATURE_HEADERS.contentDigest]: contentDigest,
+      [SIGNATURE_HEADERS.signature]: signature,
+    };
+  }
+
+  dispose() {
+    this.privateKey = undefined;
+  }
+}
+
+function getHeader(
+  headers: Web3SdkSignedRequest["headers"],
+  name: string,
+): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Creates a verifier for requests signed by `Web3SdkRequestSigner`.
+ * It rejects requests with a bad signature, a body that does not match its digest,
+ * a timestamp outside `maxSkewMs`, or a nonce that was already used.
+ *
+ * @param options.publicKey - The base64 `spki` public key of the project signing key.
+ * @param options.maxSkewMs - Accepted clock difference, defaults to 5 minutes.
+ * @param options.nonceStore - Where seen nonces are kept, defaults to an in-memory store.
+ */
+export function createRequestVerifier({
+  publicKey,
+  maxSkewMs = DEFAULT_MAX_SKEW_MS,
+  nonceStore = new MemoryNonceStore(),
+}: {
+  publicKey: string;
+  maxSkewMs?: number;
+  nonceStore?: NonceStore;
+}) {
+  return async function verifyRequest(
+    request: Web3SdkSignedRequest,
+  ): Promise<Web3SdkVerifyResult> {
+    const timestamp = getHeader(request.headers, SIGNATURE_HEADERS.timestamp);
+    const nonce = getHeader(request.headers, SIGNATURE_HEADERS.nonce);
+    const contentDigest = getHeader(
+      request.headers,
+      SIGNATURE_HEADERS.contentDigest,
+    );
+    const signature = getHeader(request.headers, SIGNATURE_HEADERS.signature);
+
+    if (!timestamp || !nonce || !contentDigest || !signature) {
+      return { valid: false, reason: "Missing signature headers" };
+    }
+
+    const signedAt = Number(timestamp);
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() - signedAt) > maxSkewMs
+    ) {
+      return { valid: false, reason: "Timestamp outside allowed window" };
+    }
+
+    if ((await sha256Hex(serializeBody(request.body))) !== contentDigest) {
+      return { valid: false, reason: "Body does not match digest" };
+    }
+
+    let isValid = false;
+    try {
+      isValid = await verifyWithPublicKey({
+        publicKey,
+        signature,
+        data: canonicalRequest({
+          method: request.method,
+          url: request.url,
+          timestamp,
+          nonce,
+          contentDigest,
+        }),
+      });
+    } catch {}
+    if (!isValid) {
+      return { valid: false, reason: "Invalid signature" };
+    }
+
+    // only remember nonces of authentic requests, so forged requests cannot burn them
+    if (!(await nonceStore.add(nonce, signedAt + maxSkewMs))) {
+      return { valid: false, reason: "Nonce already used" };
+    }
+
+    return { valid: true };
+  };
+}
+
+export type Web3SdkRequestVerifier = ReturnType<typeof createRequestVerifier>;
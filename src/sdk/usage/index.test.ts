@@ -0,0 +1,70 @@
+import { Web3SdkInsufficientCreditsError } from "../errors";
+import { mockSdk } from "../transport/mock-fixtures";
+
+function setup(credits: number, preflightCredits = false) {
+  return mockSdk({
+    project: { credits },
+    backend: { creditCosts: { wallet: 10, sponsorship: 1 } },
+    preflightCredits,
+  });
+}
+
+describe("Usage", () => {
+  it("reports the balance and usage history", async () => {
+    const { sdk } = await setup(25);
+
+    const wallet = await sdk.wallet.createWallet();
+
+    expect(await sdk.usage.getCredits()).toEqual({
+      credits: 15,
+      costs: { wallet: 10, sponsorship: 1 },
+    });
+
+    const usage = await sdk.usage.getUsage({ feature: "wallet" });
+    expect(usage).toHaveLength(1);
+    expect(usage[0]).toMatchObject({
+      feature: "wallet",
+      credits: 10,
+      reference: wallet.id,
+    });
+    expect(await sdk.usage.getUsage({ to: new Date(0) })).toEqual([]);
+    expect(await sdk.usage.getUsageSummary()).toEqual({ wallet: 10 });
+  });
+
+  it("fails fast before creating a wallet without enough credits", async () => {
+    const { sdk, backend } = await setup(25, true);
+
+    await expect(sdk.usage.ensureCredits("wallet", 3)).rejects.toMatchObject({
+      feature: "wallet",
+      required: 30,
+      available: 25,
+    });
+
+    await sdk.wallet.createWallet();
+    await sdk.wallet.createWallet();
+
+    const error = await sdk.wallet.createWallet().catch((error) => error);
+    expect(error).toBeInstanceOf(Web3SdkInsufficientCreditsError);
+    expect(error.message).toBe(
+      "Insufficient credits: 10 required, 5 available",
+    );
+    expect(backend.wallets).toHaveLength(2);
+
+    // a derived wallet is refused before an account index is reserved
+    await expect(
+      sdk.wallet.createWallet({ derived: true }),
+    ).rejects.toBeInstanceOf(Web3SdkInsufficientCreditsError);
+    expect(backend.masterSeed).toBeUndefined();
+  });
+
+  it("maps a 402 from the backend to the same error", async () => {
+    const { sdk } = await setup(5);
+
+    await expect(sdk.wallet.createWallet()).rejects.toMatchObject({
+      name: "Web3SdkInsufficientCreditsError",
+      status: 402,
+      required: 10,
+      available: 5,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Web3Sdk } from "..";
+import { Web3SdkInsufficientCreditsError } from "../errors";
+import {
+  Web3ProjectCredits,
+  Web3ProjectUsage,
+  Web3UsageFeature,
+} from "../../types";
+
+/**
+ * The `Usage` class reports the credit balance of the project and how credits were consumed,
+ * and checks the balance before billable operations.
+ */
+export class Usage {
+  private readonly sdk: Web3Sdk;
+
+  constructor({ sdk }: { sdk: Web3Sdk }) {
+    {
+      this.sdk = sdk;
+    }
+  }
+
+  /**
+   * Retrieves the credit balance and the credits charged per operation of each feature.
+   *
+   * @returns A promise that resolves to the balance and cost table.
+   *
+   * @throws {Web3SdkError} If the request to the backend fails.
+   */
+  async getCredits(): Promise<Web3ProjectCredits> {
+    const { data } = await this.sdk.transport.get(
+      `api/usage/${this.sdk.projectId}/credits`,
+    );
+
+    return data as Web3ProjectCredits;
+  }
+
+  /**
+   * Retrieves the usage history of the project, most recent first.
+   *
+   * @param options.feature - Only return usage of this feature.
+   * @param options.from - Only return usage at or after this time.
+   * @param options.to - Only return usage before this time.
+   * @returns A promise that resolves to the usage entries.
+   *
+   * @throws {Web3SdkError} If the request to the backend fails.
+   */
+  async getUsage({
+    feature,
+    from,
+    to,
+  }: {
+    feature?: Web3UsageFeature;
+    from?: Date;
+    to?: Date;
+  } = {}): Promise<Web3ProjectUsage[]> {
+    const query = new URLSearchParams();
+    if (feature) query.set("feature", feature);
+    if (from) query.set("from", from.toISOString());
+    if (to) query.set("to", to.toISOString());
+
+    const search = query.toString();
+    const { data } = await this.sdk.transport.get(
+      `api/usage/${this.sdk.projectId}${search ? `?${search}` : ""}`,
+    );
+
+    return data as Web3ProjectUsage[];
+  }
+
+  /**
+   * Sums the credits charged per feature, optionally within a time range.
+   *
+   * @returns A promise that resolves to the credits consumed by each feature.
+   */
+  async getUsageSummary({ from, to }: { from?: Date; to?: Date } = {}) {
+    const usage = await this.getUsage({ from, to });
+
+    const summary: Partial<Record<Web3UsageFeature, number>> = {};
+    for (const entry of usage) {
+      summary[entry.feature] = (summary[entry.feature] ?? 0) + entry.credits;
+    }
+    return summary;
+  }
+
+  /**
+   * Checks that the project can pay for `count` operations of a feature, without reserving anything.
+   * Call it before bulk operations, e.g. before creating many wallets in a loop.
+   *
+   * @param feature - The billable feature.
+   * @param count - The number of operations (default: 1).
+   * @returns A promise that resolves to the balance and cost table that were checked.
+   *
+   * @throws {Web3SdkInsufficientCreditsError} If the balance does not cover the operations.
+   */
+  async ensureCredits(
+    feature: Web3UsageFeature,
+    count = 1,
+  ): Promise<Web3ProjectCredits> {
+    const credits = await this.getCredits();
+    const required = (credits.costs[feature] ?? 0) * count;
+
+    if (required > credits.credits) {
+      throw new Web3SdkInsufficientCreditsError(
+        {
+          method: "GET",
+          route: `api/usage/${this.sdk.projectId}/credits`,
+        },
+        { feature, required, available: credits.credits },
+      );
+    }
+
+    return credits;
+  }
+}
@@ -0,0 +1,590 @@
+import { UTxO } from "@meshsdk/common";
+import { MeshWallet } from "@meshsdk/wallet";
+import { EmbeddedWallet } from "@meshsdk/bitcoin";
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { Web3Sdk } from "..";
+import { Web3ProjectWallet } from "../../types";
+import { getProfileCardanoAddress } from "../network";
+import { Web3SdkMockBackend } from "../transport";
+import {
+  mockFetcher,
+  mockSdk,
+  mockSubmitter,
+} from "../transport/mock-fixtures";
+import {
+  WalletAlreadyExistsError,
+  WalletHasFundsError,
+  WalletKeyExportDisabledError,
+} from ".";
+
+async function setup(
+  options: Partial<ConstructorParameters<typeof Web3Sdk>[0]> = {},
+) {
+  const utxos: Record<string, UTxO[]> = {};
+  const { sdk, backend } = await mockSdk({
+    fetcher: mockFetcher({
+      fetchAddressUTxOs: async (address: string) => utxos[address] ?? [],
+    }),
+    ...options,
+  });
+
+  return { sdk, backend, utxos };
+}
+
+describe("WalletDeveloperControlled lifecycle", () => {
+  it("updates tags, name and metadata", async () => {
+    const { sdk } = await setup();
+    const { id } = await sdk.wallet.createWallet({
+      tags: ["deposit"],
+      name: "Alice",
+      metadata: { userId: "u-1" },
+    });
+
+    await sdk.wallet.addTags(id, ["deposit", "vip"]);
+    expect((await sdk.wallet.removeTags(id, ["deposit"])).tags).toEqual([
+      "vip",
+    ]);
+
+    // concurrent changes are applied by the backend, none is lost
+    await Promise.all([
+      sdk.wallet.addTags(id, ["gold"]),
+      sdk.wallet.addTags(id, ["eu"]),
+      sdk.wallet.removeTags(id, ["vip"]),
+    ]);
+    expect((await sdk.wallet.getWalletInfo(id)).tags.sort()).toEqual([
+      "eu",
+      "gold",
+    ]);
+
+    const updated = await sdk.wallet.updateWalletDetails(id, {
+      name: "Alice B.",
+      metadata: { tier: 2, userId: null },
+    });
+    expect(updated.name).toBe("Alice B.");
+    expect(updated.metadata).toEqual({ tier: 2 });
+  });
+
+  it("reads wallets saved before tags, details and chain keys were stored", async () => {
+    const { sdk, backend } = await setup();
+    const { id, key, projectId, pubKeyHash, stakeCredentialHash } =
+      await sdk.wallet.createWallet();
+    backend.wallets = [
+      {
+        id,
+        key,
+        projectId,
+        pubKeyHash,
+        stakeCredentialHash,
+      } as Web3ProjectWallet,
+    ];
+
+    expect(await sdk.wallet.getWalletInfo(id)).toMatchObject({
+      tags: [],
+      bitcoinMainnetPubKeyHash: null,
+      sparkMainnetPubKeyHash: null,
+      name: null,
+      metadata: {},
+      archivedAt: null,
+    });
+    expect((await sdk.wallet.getWallets())[0]!.tags).toEqual([]);
+    expect(
+      (await sdk.wallet.updateWalletDetails(id, { metadata: { tier: 1 } }))
+        .metadata,
+    ).toEqual({ tier: 1 });
+
+    const signer = await sdk.wallet.getSigner(id);
+    expect(signer.bitcoin).toBeUndefined();
+    expect(signer.spark).toBeUndefined();
+  });
+
+  it("archives wallets out of wallet lists", async () => {
+    const { sdk } = await setup();
+    const { id } = await sdk.wallet.createWallet({ tags: ["test"] });
+
+    await sdk.wallet.archiveWallet(id);
+    expect(await sdk.wallet.getWallets()).toEqual([]);
+    expect(await sdk.wallet.getWalletsByTag("test")).toEqual([]);
+    expect(await sdk.wallet.getWallets({ includeArchived: true })).toHaveLength(
+      1,
+    );
+    expect((await sdk.wallet.getWalletInfo(id)).archivedAt).not.toBeNull();
+
+    await sdk.wallet.unarchiveWallet(id);
+    expect(await sdk.wallet.getWallets()).toHaveLength(1);
+  });
+
+  it("refuses to delete a wallet that holds funds", async () => {
+    const { sdk, backend, utxos } = await setup();
+    const wallet = await sdk.wallet.createWallet();
+    const address = getProfileCardanoAddress(
+      sdk.networkProfile,
+      wallet.pubKeyHash,
+      wallet.stakeCredentialHash,
+    );
+
+    utxos[address] = [
+      {
+        input: { txHash: "00".repeat(32), outputIndex: 0 },
+        output: { address, amount: [{ unit: "lovelace", quantity: "1" }] },
+      },
+    ];
+    await expect(sdk.wallet.deleteWallet(wallet.id)).rejects.toBeInstanceOf(
+      WalletHasFundsError,
+    );
+    expect(backend.wallets).toHaveLength(1);
+
+    utxos[address] = [];
+    await sdk.wallet.deleteWallet(wallet.id);
+    expect(backend.wallets).toHaveLength(0);
+  });
+});
+
+describe("WalletDeveloperControlled queries", () => {
+  function seed(backend: Web3SdkMockBackend) {
+    const tagSets = [["a"], ["a", "b"], ["b"], [], ["a", "b"]];
+    backend.wallets = tagSets.map((tags, i) => ({
+      id: `wallet-${i}`,
+      key: "encrypted",
+      tags,
+      projectId: "project-1",
+      pubKeyHash: String(i).repeat(56),
+      stakeCredentialHash: String(i).repeat(56),
+      bitcoinMainnetPubKeyHash: null,
+      bitcoinTestnetPubKeyHash: null,
+      sparkMainnetPubKeyHash: null,
+      sparkRegtestPubKeyHash: null,
+      sparkMainnetStaticDepositAddress: null,
+      sparkRegtestStaticDepositAddress: null,
+      name: null,
+      metadata: {},
+      archivedAt: i === 4 ? new Date() : null,
+    }));
+  }
+
+  it("pages through wallets with tag filters", async () => {
+    const { sdk, backend } = await setup();
+    seed(backend);
+
+    const first = await sdk.wallet.queryWallets({ limit: 2 });
+    expect(first.wallets.map((wallet) => wallet.id)).toEqual([
+      "wallet-0",
+      "wallet-1",
+    ]);
+    const second = await sdk.wallet.queryWallets({
+      limit: 2,
+      cursor: first.nextCursor!,
+    });
+    expect(second.wallets.map((wallet) => wallet.id)).toEqual([
+      "wallet-2",
+      "wallet-3",
+    ]);
+    expect(second.nextCursor).toBeNull();
+
+    const all = await sdk.wallet.queryWallets({ tags: ["a", "b"] });
+    expect(all.wallets.map((wallet) => wallet.id)).toEqual(["wallet-1"]);
+
+    const ids = [];
+    for await (const wallet of sdk.wallet.iterateWallets({
+      tags: ["a", "b"],
+      tagMode: "any",
+      includeArchived: true,
+      pageSize: 1,
+    })) {
+      ids.push(wallet.id);
+    }
+    expect(ids).toEqual(["wallet-0", "wallet-1", "wallet-2", "wallet-4"]);
+
+    await expect(sdk.wallet.queryWallets({ limit: 0 })).rejects.toThrow(
+      "limit must be between 1 and 1000",
+    );
+  });
+
+  it("finds wallets by key hash or address", async () => {
+    const { sdk, backend } = await setup();
+    seed(backend);
+
+    expect(
+      (await sdk.wallet.findWallet({ pubKeyHash: "2".repeat(56) }))?.id,
+    ).toBe("wallet-2");
+    expect(
+      (await sdk.wallet.findWallet({ stakeCredentialHash: "4".repeat(56) }))
+        ?.id,
+    ).toBe("wallet-4");
+
+    const address = getProfileCardanoAddress(
+      sdk.networkProfile,
+      "3".repeat(56),
+      "3".repeat(56),
+    );
+    expect((await sdk.wallet.findWallet({ address }))?.id).toBe("wallet-3");
+    expect(
+      await sdk.wallet.findWallet({ pubKeyHash: "9".repeat(56) }),
+    ).toBeUndefined();
+    await expect(
+      sdk.wallet.findWallet({ address: "addr1nope" }),
+    ).rejects.toThrow("Invalid bech32 address");
+  });
+});
+
+describe("WalletDeveloperControlled imports", () => {
+  it("imports an existing mnemonic once", async () => {
+    const { sdk } = await setup();
+    const words = MeshWallet.brew() as string[];
+
+    const imported = await sdk.wallet.importWallet(
+      { type: "mnemonic", words: words.join("  ") },
+      { tags: ["imported"] },
+    );
+    expect(imported.keyType).toBe("mnemonic");
+
+    const { wallet, info } = await sdk.wallet.getWallet(imported.id, 0, true);
+    const expected = new MeshWallet({
+      networkId: 0,
+      key: { type: "mnemonic", words },
+    });
+    await expected.init();
+    expect(await wallet.getChangeAddress()).toBe(
+      await expected.getChangeAddress(),
+    );
+    expect(info.key).toBe(words.join(" "));
+
+    await expect(
+      sdk.wallet.importWallet({ type: "mnemonic", words }),
+    ).rejects.toBeInstanceOf(WalletAlreadyExistsError);
+  });
+
+  it("imports cardano-cli signing keys", async () => {
+    const { sdk } = await setup();
+    const payment = JSON.stringify({
+      type: "PaymentSigningKeyShelley_ed25519",
+      description: "Payment Signing Key",
+      cborHex: "5820" + "11".repeat(32),
+    });
+
+    const imported = await sdk.wallet.importWallet({ type: "cli", payment });
+    expect(imported.keyType).toBe("cli");
+    expect(imported.bitcoinMainnetPubKeyHash).toBeNull();
+
+    const { wallet } = await sdk.wallet.getWallet(imported.id, 0);
+    const expected = new MeshWallet({
+      networkId: 0,
+      key: { type: "cli", payment: "5820" + "11".repeat(32) },
+    });
+    await expected.init();
+    expect(await wallet.getChangeAddress()).toBe(
+      await expected.getChangeAddress(),
+    );
+  });
+
+  it("rejects malformed keys", async () => {
+    const { sdk, backend } = await setup();
+
+    await expect(
+      sdk.wallet.importWallet({ type: "mnemonic", words: "not a mnemonic" }),
+    ).rejects.toThrow("Invalid mnemonic");
+    await expect(
+      sdk.wallet.importWallet({ type: "cli", payment: "58201234" }),
+    ).rejects.toThrow("Invalid cardano-cli signing key");
+    await expect(
+      sdk.wallet.importWallet({
+        type: "root",
+        bech32: "xprv1" + "q".repeat(150),
+      }),
+    ).rejects.toThrow("Invalid root key");
+    expect(backend.wallets).toHaveLength(0);
+  });
+});
+
+describe("WalletDeveloperControlled derived wallets", () => {
+  it("derives wallets from the project master seed", async () => {
+    const { sdk, backend } = await setup();
+
+    const [first, second] = await Promise.all([
+      sdk.wallet.createWallet({ derived: true }),
+      sdk.wallet.createWallet({ derived: true }),
+    ]);
+    expect(first!.key).toBe("");
+    expect(second!.key).toBe("");
+    expect([first!.derivationIndex, second!.derivationIndex].sort()).toEqual([
+      0, 1,
+    ]);
+    expect(backend.masterSeed).toBeDefined();
+
+    const words = await sdk.wallet.exportMasterSeed();
+    const index = second!.derivationIndex!;
+    const expected = new MeshWallet({
+      networkId: 0,
+      key: { type: "mnemonic", words },
+      accountIndex: index,
+    });
+    await expected.init();
+
+    const { wallet, bitcoinWallet } = await sdk.wallet.getWallet(second!.id, 0);
+    expect(await wallet.getChangeAddress()).toBe(
+      await expected.getChangeAddress(),
+    );
+    expect(bitcoinWallet!.getPublicKey()).toBe(
+      new EmbeddedWallet({
+        network: "Testnet",
+        key: { type: "mnemonic", words },
+        path: `m/84'/1'/${index}'/0/0`,
+      }).getPublicKey(),
+    );
+    expect(bitcoinWallet!.getPublicKey()).toBe(
+      second!.bitcoinTestnetPubKeyHash,
+    );
+
+    await expect(sdk.wallet.getWallet(second!.id, 0, true)).rejects.toThrow(
+      "Derived wallets have no key",
+    );
+  });
+});
+
+describe("WalletDeveloperControlled signers", () => {
+  it("signs without handing out the key", async () => {
+    const { sdk } = await setup();
+    const { id } = await sdk.wallet.createWallet();
+    const { wallet, bitcoinWallet } = await sdk.wallet.getWallet(id, 0);
+
+    const signer = await sdk.wallet.getSigner(id);
+    expect(signer.info.key).not.toContain(" ");
+    expect(signer.spark).toBeUndefined();
+
+    const address = await signer.cardano.getChangeAddress();
+    expect(address).toBe(await wallet.getChangeAddress());
+    expect(await signer.cardano.signData("cafe")).toEqual(
+      await wallet.signData("cafe", address),
+    );
+
+    expect(await signer.bitcoin!.getPublicKey()).toBe(
+      bitcoinWallet!.getPublicKey(),
+    );
+    const { signature } = await signer.bitcoin!.signMessage("hello", "ECDSA");
+    expect(signature).toBe(
+      (
+        await bitcoinWallet!.signMessage({
+          address: await signer.bitcoin!.getAddress(),
+          message: "hello",
+          protocol: "ECDSA",
+        })
+      ).signature,
+    );
+  });
+
+  it("refuses key export when the project disables it", async () => {
+    const { sdk, backend } = await setup();
+    const { id } = await sdk.wallet.createWallet();
+    await sdk.wallet.createWallet({ derived: true });
+
+    // disabled by another admin after this SDK cached the project
+    await sdk.getProject();
+    backend.project.disableKeyExport = true;
+
+    await expect(sdk.wallet.getWallet(id, 0, true)).rejects.toBeInstanceOf(
+      WalletKeyExportDisabledError,
+    );
+    await expect(sdk.wallet.exportMasterSeed()).rejects.toBeInstanceOf(
+      WalletKeyExportDisabledError,
+    );
+    const { info } = await sdk.wallet.getWallet(id, 0);
+    expect(info.key).not.toContain(" ");
+  });
+});
+
+describe("WalletDeveloperControlled Spark", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records Spark keys and opens Spark wallets only when asked", async () => {
+    const { sdk } = await setup();
+    const stubs: { network: string; cleanupConnections: jest.Mock }[] = [];
+    const initialize = jest
+      .spyOn(SparkWallet, "initialize")
+      .mockImplementation(async ({ options }) => {
+        const network = options!.network!;
+        const stub = {
+          network,
+          getIdentityPublicKey: async () =>
+            network === "MAINNET"
+              ? `02${"11".repeat(32)}`
+              : `03${"22".repeat(32)}`,
+          getStaticDepositAddress: async () => `${network}-deposit`,
+          cleanupConnections: jest.fn(async () => {}),
+        };
+        stubs.push(stub);
+        return { wallet: stub } as unknown as Awaited<
+          ReturnType<typeof SparkWallet.initialize>
+        >;
+      });
+
+    const plain = await sdk.wallet.createWallet();
+    expect(plain.sparkMainnetPubKeyHash).toBeNull();
+    expect(initialize).not.toHaveBeenCalled();
+
+    const wallet = await sdk.wallet.createWallet({ chains: { spark: true } });
+    expect(wallet).toMatchObject({
+      sparkMainnetPubKeyHash: `02${"11".repeat(32)}`,
+      sparkRegtestPubKeyHash: `03${"22".repeat(32)}`,
+      sparkMainnetStaticDepositAddress: "MAINNET-deposit",
+      sparkRegtestStaticDepositAddress: "REGTEST-deposit",
+    });
+    // the wallets used to read the keys are closed right away
+    expect(stubs.map((stub) => stub.network).sort()).toEqual([
+      "MAINNET",
+      "REGTEST",
+    ]);
+    expect(
+      stubs.every((stub) => stub.cleanupConnections.mock.calls.length),
+    ).toBe(true);
+
+    expect((await sdk.wallet.getWallet(wallet.id)).sparkWallet).toBeUndefined();
+    expect(initialize).toHaveBeenCalledTimes(2);
+
+    const { sparkWallet } = await sdk.wallet.getWallet(wallet.id, 0, false, {
+      chains: { spark: true },
+    });
+    expect(sparkWallet).toBe(stubs[2]);
+    expect(stubs[2]!.network).toBe(sdk.networkProfile.spark.network);
+    expect(stubs[2]!.cleanupConnections).not.toHaveBeenCalled();
+  });
+});
+
+describe("WalletDeveloperControlled balances", () => {
+  it("sums holdings per wallet, per tag and in total without decrypting", async () => {
+    const { sdk, utxos } = await setup();
+    const token = `${"ab".repeat(28)}746f6b656e`;
+    const wallets = await Promise.all(
+      [["ops"], ["ops", "cold"], ["cold"]].map((tags) =>
+        sdk.wallet.createWallet({ tags }),
+      ),
+    );
+    wallets.forEach((wallet, i) => {
+      const address = getProfileCardanoAddress(
+        sdk.networkProfile,
+        wallet.pubKeyHash,
+        wallet.stakeCredentialHash,
+      );
+      utxos[address] = [
+        {
+          input: { txHash: "00".repeat(32), outputIndex: i },
+          output: {
+            address,
+            amount: [
+              { unit: "lovelace", quantity: `${(i + 1) * 1000000}` },
+              ...(i === 1 ? [{ unit: token, quantity: "7" }] : []),
+            ],
+          },
+        },
+      ];
+    });
+
+    const decrypt = jest.spyOn(sdk.keyCustody!, "decrypt");
+    const balances = await sdk.wallet.getBalances({ concurrency: 2 });
+
+    expect(decrypt).not.toHaveBeenCalled();
+    expect(balances.wallets.map((wallet) => wallet.assets)).toEqual([
+      [{ unit: "lovelace", quantity: "1000000" }],
+      [
+        { unit: "lovelace", quantity: "2000000" },
+        { unit: token, quantity: "7" },
+      ],
+      [{ unit: "lovelace", quantity: "3000000" }],
+    ]);
+    expect(balances.tags).toEqual({
+      ops: [
+        { unit: "lovelace", quantity: "3000000" },
+        { unit: token, quantity: "7" },
+      ],
+      cold: [
+        { unit: "lovelace", quantity: "5000000" },
+        { unit: token, quantity: "7" },
+      ],
+    });
+    expect(balances.total).toEqual([
+      { unit: "lovelace", quantity: "6000000" },
+      { unit: token, quantity: "7" },
+    ]);
+    expect((await sdk.wallet.getBalances({ tags: ["cold"] })).total[0]).toEqual(
+      { unit: "lovelace", quantity: "5000000" },
+    );
+  });
+});
+
+describe("WalletDeveloperControlled sweeps", () => {
+  it("previews and submits consolidation transactions, skipping refusing wallets", async () => {
+    const submitted: string[] = [];
+    const submitter = mockSubmitter({
+      submitTx: async (tx: string) => {
+        submitted.push(tx);
+        return "tx-hash";
+      },
+    });
+    const { sdk, utxos } = await setup({
+      submitter,
+      spendingPolicies: [
+        { id: "frozen", tags: ["frozen"], allowedAddresses: [] },
+      ],
+    });
+
+    const treasury = await sdk.wallet.createWallet();
+    const destination = getProfileCardanoAddress(
+      sdk.networkProfile,
+      treasury.pubKeyHash,
+      treasury.stakeCredentialHash,
+    );
+    const deposits = await Promise.all(
+      [["deposit"], ["deposit", "frozen"], ["deposit"], ["deposit"]].map(
+        (tags) => sdk.wallet.createWallet({ tags }),
+      ),
+    );
+    deposits.slice(0, 3).forEach((wallet, i) => {
+      const address = getProfileCardanoAddress(
+        sdk.networkProfile,
+        wallet.pubKeyHash,
+        wallet.stakeCredentialHash,
+      );
+      utxos[address] = [0, 1].map((outputIndex) => ({
+        input: { txHash: `0${i}`.repeat(32), outputIndex },
+        output: {
+          address,
+          amount: [{ unit: "lovelace", quantity: "5000000" }],
+        },
+      }));
+    });
+
+    const preview = await sdk.wallet.sweep({
+      destination,
+      tags: ["deposit"],
+      dryRun: true,
+      maxWalletsPerTx: 2,
+    });
+    expect(submitted).toHaveLength(0);
+    expect(preview.empty).toEqual([deposits[3]!.id]);
+    expect(preview.batches.map((batch) => batch.walletIds)).toEqual([
+      [deposits[0]!.id, deposits[1]!.id],
+      [deposits[2]!.id],
+    ]);
+    expect(BigInt(preview.batches[0]!.fee)).toBeGreaterThan(0n);
+    expect(BigInt(preview.swept[0]!.quantity) + BigInt(preview.fees)).toBe(
+      30000000n,
+    );
+
+    const report = await sdk.wallet.sweep({
+      destination,
+      tags: ["deposit"],
+      maxWalletsPerTx: 2,
+    });
+    expect(report.failed.map((failure) => failure.walletId)).toEqual([
+      deposits[1]!.id,
+    ]);
+    expect(report.batches.map((batch) => batch.walletIds)).toEqual([
+      [deposits[0]!.id],
+      [deposits[2]!.id],
+    ]);
+    expect(submitted).toHaveLength(2);
+    expect(BigInt(report.swept[0]!.quantity) + BigInt(report.fees)).toBe(
+      20000000n,
+    );
+  });
+});
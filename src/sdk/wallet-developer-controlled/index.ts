@@ -1,9 +1,125 @@
 import { Web3Sdk } from "..";
-import { MeshWallet } from "@meshsdk/wallet";
-import { decryptWithPrivateKey, encryptWithPublicKey } from "../../functions";
-import { Web3ProjectWallet } from "../../types";
+import { MeshWallet, WalletStaticMethods } from "@meshsdk/wallet";
+import { encryptWithPublicKey } from "../../functions";
+import { EmbeddedWallet } from "@meshsdk/bitcoin";
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import {
+  Web3ProjectWallet,
+  Web3ProjectWalletChains,
+  Web3ProjectWalletFilter,
+  Web3ProjectWalletMetadata,
+  Web3ProjectWalletPage,
+  Web3ProjectWalletTagsUpdate,
+  Web3ProjectWalletUpdate,
+} from "../../types";
+import {
+  getProfileBitcoinAddress,
+  getProfileCardanoAddress,
+  getProfileSparkAddress,
+} from "../network";
 import { deserializeBech32Address } from "@meshsdk/core-cst";
+import { mnemonicToEntropy } from "@meshsdk/common";
 import { v4 as uuidv4 } from "uuid";
+import { IDEMPOTENCY_KEY_HEADER } from "../transport";
+import { timed } from "../instrumentation";
+import { Web3SdkError, Web3SdkNotFoundError } from "../errors";
+import { guardMeshWallet } from "../spending-policy";
+import {
+  AuditContext,
+  auditBitcoinWallet,
+  auditMeshWallet,
+} from "../audit-log";
+import { WalletPayouts } from "../payouts";
+import {
+  BitcoinWalletSigner,
+  CardanoWalletSigner,
+  DeveloperWalletSigner,
+  SparkWalletSigner,
+  WalletSession,
+} from "./signer";
+import {
+  aggregateHoldings,
+  mapConcurrent,
+  sumAssets,
+  sumUtxos,
+  TreasuryBalances,
+  WalletHoldings,
+} from "./treasury";
+
+import {
+  buildSweepTx,
+  DEFAULT_SWEEP_MAX_TX_SIZE,
+  DEFAULT_SWEEP_MAX_WALLETS_PER_TX,
+  SweepOptions,
+  SweepReport,
+  SweepSource,
+  SweepTx,
+  sweptAssets,
+} from "./sweep";
+import { holdsCip68ReferenceToken, WalletMinting } from "./minting";
+import { WalletStaking } from "./staking";
+
+export * from "./signer";
+export {
+  holdsCip68ReferenceToken,
+  MintingPolicyLockedError,
+  WalletMinting,
+} from "./minting";
+export type { MintAsset, MintingStandard, MintResult } from "./minting";
+export { WalletStaking } from "./staking";
+export type {
+  StakingOptions,
+  StakingReport,
+  StakingTarget,
+  WalletStakingStatus,
+} from "./staking";
+export type {
+  SweepBatch,
+  SweepOptions,
+  SweepReport,
+  SweepSource,
+} from "./sweep";
+export type { TreasuryBalances, WalletHoldings } from "./treasury";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_BALANCE_CONCURRENCY = 5;
+const CLI_SIGNING_KEY_PATTERN = /^5820[0-9a-f]{64}$/i;
+// a BIP32-Ed25519 private key: the 64-byte extended key and the 32-byte chain code
+const ROOT_KEY_LENGTH = 96;
+
+export type WalletQuery = Web3ProjectWalletFilter & {
+  /** A Cardano bech32 address, matched by its payment and stake credentials. */
+  address?: string;
+};
+
+/** A key in the form `importWallet` accepts. */
+export type WalletImportKey =
+  | { type: "mnemonic"; words: string[] | string }
+  | { type: "root"; bech32: string }
+  | { type: "cli"; payment: string; stake?: string };
+
+/**
+ * A validated key, as stored encrypted in `Web3ProjectWallet.key`. Derived keys are the project master seed
+ * and the account index of the wallet, only the index is stored with the wallet.
+ */
+type WalletKey =
+  | { type: "mnemonic"; words: string[] }
+  | { type: "root"; bech32: string }
+  | { type: "cli"; payment: string; stake?: string }
+  | { type: "derived"; words: string[]; accountIndex: number };
+
+export type WalletRegistrationOptions = {
+  tags?: string[];
+  name?: string;
+  metadata?: Web3ProjectWalletMetadata;
+  chains?: Web3ProjectWalletChains;
+};
+
+export type WalletCreationOptions = WalletRegistrationOptions & {
+  /** Derive the wallet from the project master seed instead of a new mnemonic (default: the SDK's `deriveWallets`). */
+  derived?: boolean;
+};
 
 /**
  * The `WalletDeveloperControlled` class provides functionality for managing developer-controlled wallets
@@ -12,10 +128,19 @@ import { v4 as uuidv4 } from "uuid";
  */
 export class WalletDeveloperControlled {
   readonly sdk: Web3Sdk;
+  /** Mints and burns tokens under native-script policies owned by the project's wallets. */
+  readonly minting: WalletMinting;
+  /** Delegates the stake of the project's wallets and withdraws their rewards. */
+  readonly staking: WalletStaking;
+  /** Pays many recipients from one of the project's wallets, with progress kept in memory. */
+  readonly payouts: WalletPayouts;
 
   constructor({ sdk }: { sdk: Web3Sdk }) {
     {
       this.sdk = sdk;
+      this.minting = new WalletMinting({ sdk });
+      this.staking = new WalletStaking({ sdk });
+      this.payouts = new WalletPayouts({ sdk });
     }
   }
 
@@ -25,156 +150,1423 @@ export class WalletDeveloperControlled {
    *
    * @param {Object} [options] - Optional parameters for wallet creation.
    * @param {string} [options.tag] - An optional tag to associate with the wallet.
+   * @param {string} [options.name] - An optional display name.
+   * @param {Web3ProjectWalletMetadata} [options.metadata] - Optional metadata, e.g. the ID of the user the wallet belongs to.
+   * @param {Web3ProjectWalletChains} [options.chains] - The chains to record keys for besides Cardano (default: Bitcoin).
+   * Spark keys are only recorded with `spark: true`, which connects to the Spark operators of mainnet and regtest.
+   * @param {boolean} [options.derived] - Derive the wallet from the project master seed, see `exportMasterSeed`.
+   * The master seed is created on first use, and the wallet stores only its account index instead of an encrypted key.
    *
    * @returns {Promise<Web3ProjectWallet>} A promise that resolves to the created wallet instance.
    *
    * @throws {Error} If the project's public key is not found.
-   * @throws {Error} If the wallet creation request to the backend fails.
+   * @throws {Web3SdkInsufficientCreditsError} If `preflightCredits` is set and the project cannot pay for the wallet.
+   * @throws {Web3SdkError} If the wallet creation request to the backend fails.
    */
   async createWallet({
-    tags,
-  }: { tags?: string[] } = {}): Promise<Web3ProjectWallet> {
-    const project = await this.sdk.getProject();
+    derived = this.sdk.deriveWallets,
+    ...options
+  }: WalletCreationOptions = {}): Promise<Web3ProjectWallet> {
+    // before an account index is reserved, a wallet that cannot be paid for must not use one up
+    await this.preflightWallet();
 
-    if (!project.publicKey) {
-      throw new Error("Project public key not found");
+    if (derived) {
+      const words = await this.ensureMasterSeed();
+      // indexes are handed out by the backend, so concurrent creators never derive the same account
+      const { data } = await this.sdk.transport.post(
+        `api/project/${this.sdk.projectId}/master-seed/index`,
+        {},
+      );
+      const key: WalletKey = {
+        type: "derived",
+        words,
+        accountIndex: (data as { index: number }).index,
+      };
+
+      return this.registerWallet(
+        key,
+        await this.deriveCardanoKeys(key),
+        options,
+      );
     }
 
     const mnemonic = MeshWallet.brew() as string[];
-    const encryptedMnemonic = await encryptWithPublicKey({
-      publicKey: project.publicKey,
-      data: mnemonic.join(" "),
-    });
-
-    const _wallet = new MeshWallet({
-      networkId: 1,
-      key: {
-        type: "mnemonic",
-        words: mnemonic,
-      },
-      fetcher: this.sdk.providerFetcher,
-      submitter: this.sdk.providerSubmitter,
-    });
-    await _wallet.init();
 
-    const addresses = await _wallet.getAddresses();
-    const baseAddressBech32 = addresses.baseAddressBech32!;
-
-    const { pubKeyHash, stakeCredentialHash } =
-      deserializeBech32Address(baseAddressBech32);
-
-    // create wallet
-
-    const web3Wallet: Web3ProjectWallet = {
-      id: uuidv4(),
-      key: encryptedMnemonic,
-      tags: tags || [],
-      projectId: this.sdk.projectId,
-      pubKeyHash: pubKeyHash,
-      stakeCredentialHash: stakeCredentialHash,
-    };
-
-    const { data, status } = await this.sdk.axiosInstance.post(
-      `api/project-wallet`,
-      web3Wallet,
+    return this.registerWallet(
+      { type: "mnemonic", words: mnemonic },
+      await this.deriveCardanoKeys({ type: "mnemonic", words: mnemonic }),
+      options,
     );
+  }
+
+  /**
+   * Imports an existing key into a new wallet of the current project, e.g. when migrating treasury wallets.
+   * The key is validated, encrypted with the project's public key and registered like a created wallet.
+   * Bitcoin and Spark keys can only be recorded for mnemonics.
+   *
+   * @param key - A mnemonic, a root private key (bech32 `xprv1...`) or a cardano-cli signing key
+   * (the `cborHex` of a `.skey` file, or the file content itself).
+   * @param options - The same options as `createWallet`.
+   * @returns A promise that resolves to the imported wallet.
+   *
+   * @throws {Error} If the key is invalid.
+   * @throws {WalletAlreadyExistsError} If a wallet with the same payment key already exists in the project.
+   */
+  async importWallet(
+    key: WalletImportKey,
+    options: WalletRegistrationOptions = {},
+  ): Promise<Web3ProjectWallet> {
+    await this.preflightWallet();
+    const walletKey = normalizeImportKey(key);
+    const keyHashes = await this.deriveCardanoKeys(walletKey);
 
-    if (status === 200) {
-      return data as Web3ProjectWallet;
+    const existing = await this.findWallet({
+      pubKeyHash: keyHashes.pubKeyHash,
+    });
+    if (existing) {
+      throw new WalletAlreadyExistsError(existing.id);
     }
 
-    throw new Error("Failed to create wallet");
+    return this.registerWallet(walletKey, keyHashes, {
+      ...options,
+      chains:
+        walletKey.type === "mnemonic"
+          ? options.chains
+          : { bitcoin: false, spark: false },
+    });
   }
 
   /**
    * Retrieves a list of wallets associated with the current project.
    *
+   * @param options.includeArchived - Also return archived wallets (default: false).
    * @returns {Promise<Web3ProjectWallet[]>} A promise that resolves to an array of wallets,
    * each containing the wallet's `id`, `address`, `networkId`, and `tag`.
    *
-   * @throws {Error} Throws an error if the request to fetch wallets fails.
+   * @throws {Web3SdkError} Throws an error if the request to fetch wallets fails.
    */
-  async getWallets(): Promise<Web3ProjectWallet[]> {
-    const { data, status } = await this.sdk.axiosInstance.get(
-      `api/project-wallet/${this.sdk.projectId}`,
+  async getWallets({
+    includeArchived = false,
+  }: { includeArchived?: boolean } = {}): Promise<Web3ProjectWallet[]> {
+    const { data } = await this.sdk.transport.get(
+      `api/project-wallet/${this.sdk.projectId}${includeArchived ? "?includeArchived=true" : ""}`,
     );
 
-    if (status === 200) {
-      return data as Web3ProjectWallet[];
-    }
+    return (data as StoredWallet[]).map(toProjectWallet);
+  }
 
-    throw new Error("Failed to get wallets");
+  /**
+   * Decrypts the project master seed that derived wallets are generated from. Together with the project's
+   * private key, it is all that is needed to restore every derived wallet.
+   *
+   * @param options.auditContext - Recorded with the export in the SDK's audit log.
+   * @returns The mnemonic of the master seed.
+   * @throws {Web3SdkNotFoundError} If the project has no master seed yet.
+   * @throws {WalletKeyExportDisabledError} If the project disables key export.
+   */
+  async exportMasterSeed({
+    auditContext,
+  }: { auditContext?: AuditContext } = {}): Promise<string[]> {
+    await this.assertKeyExportAllowed();
+    const words = await this.getMasterSeed(auditContext);
+    await this.sdk.auditLog?.record({
+      action: "export",
+      context: auditContext,
+    });
+    return words;
   }
 
   /**
    * Retrieves a wallet by its ID and decrypts the key with the project's private key.
    *
    * @param walletId - The unique identifier of the wallet to retrieve.
-   * @param networkId - The network ID associated with the wallet (0 or 1).
+   * @param networkId - The network ID associated with the wallet (0 or 1), defaults to the network profile of the SDK.
    * @param decryptKey - A boolean indicating whether to decrypt the wallet key (default: false).
+   * Derived wallets have no key of their own, use `exportMasterSeed` instead. Refused when the project disables key export.
+   * @param options.chains - The chain wallets to initialize besides Cardano, chains the wallet has no keys for are skipped (default: Bitcoin).
+   * The `SparkWallet` is only opened with `spark: true`, it holds connections to the Spark operators until the caller
+   * calls its `cleanupConnections()`.
+   * @param options.auditContext - Recorded with the decryption, the export and every Cardano and Bitcoin signature in the SDK's
+   * audit log. With an audit log, the `SparkWallet` is refused, its transfers sign where they cannot be recorded.
    *
-   * @returns A promise that resolves to an initialized `MeshWallet` instance.
-   * @throws Will throw an error if the private key is not found or if the wallet retrieval fails.
+   * @returns A promise that resolves to an initialized `MeshWallet` instance, and the Bitcoin `EmbeddedWallet` and `SparkWallet`
+   * on the network of the SDK's network profile. Prefer `getSigner` where only signatures are needed.
+   * When spending policies apply to the wallet, the `MeshWallet` checks every transaction against them before signing,
+   * and no Bitcoin or Spark wallet is returned since their signatures would bypass the policies, use `getSigner` for them.
+   * @throws Will throw an error if the private key is not found, or a `Web3SdkError` if the wallet retrieval fails.
+   * @throws {WalletKeyExportDisabledError} If `decryptKey` is set and the project disables key export.
+   * @throws {WalletSpendingPolicyError} If `decryptKey` is set and spending policies apply to the wallet.
    */
   async getWallet(
     walletId: string,
-    networkId: 0 | 1,
+    networkId: 0 | 1 = this.sdk.networkProfile.cardano.networkId,
     decryptKey = false,
+    {
+      chains = {},
+      auditContext,
+    }: { chains?: Web3ProjectWalletChains; auditContext?: AuditContext } = {},
   ): Promise<{
     info: Web3ProjectWallet;
     wallet: MeshWallet;
+    bitcoinWallet?: EmbeddedWallet;
+    sparkWallet?: SparkWallet;
   }> {
-    if (this.sdk.privateKey === undefined) {
+    if (this.sdk.keyCustody === undefined) {
       throw new Error("Private key not found");
     }
 
-    const { data, status } = await this.sdk.axiosInstance.get(
+    const { data } = await this.sdk.transport.get(
       `api/project-wallet/${this.sdk.projectId}/${walletId}`,
     );
 
-    if (status === 200) {
-      const web3Wallet = data as Web3ProjectWallet;
+    const web3Wallet = toProjectWallet(data as StoredWallet);
+    // the policies only see Cardano transactions signed by the returned MeshWallet
+    const guarded = this.sdk.policies.policiesFor(web3Wallet).length > 0;
 
-      const mnemonic = await decryptWithPrivateKey({
-        privateKey: this.sdk.privateKey,
-        encryptedDataJSON: web3Wallet.key,
-      });
-
-      if (decryptKey) {
-        web3Wallet.key = mnemonic;
+    if (decryptKey) {
+      if (web3Wallet.keyType === "derived") {
+        throw new Error("Derived wallets have no key, export the master seed");
+      }
+      if (guarded) {
+        throw new WalletSpendingPolicyError(walletId);
       }
+      await this.assertKeyExportAllowed();
+    }
+    if (chains.spark === true && this.sdk.auditLog !== undefined) {
+      // transfers of a SparkWallet sign inside the Spark SDK, where they cannot be recorded
+      throw new Error(
+        "Spark wallets are not handed out with an audit log, use getSigner",
+      );
+    }
 
-      const wallet = new MeshWallet({
-        networkId: networkId,
-        key: {
-          type: "mnemonic",
-          words: mnemonic.split(" "),
-        },
-        fetcher: this.sdk.providerFetcher,
-        submitter: this.sdk.providerSubmitter,
+    const { secret, key } = await this.decryptWalletKey(
+      web3Wallet,
+      auditContext,
+    );
+
+    if (decryptKey) {
+      await this.sdk.auditLog?.record({
+        action: "export",
+        walletId,
+        context: auditContext,
       });
-      await wallet.init();
+      web3Wallet.key = secret;
+    }
 
-      return { info: web3Wallet, wallet: wallet };
+    const wallet = await this.openCardanoWallet(key, networkId);
+    if (guarded) {
+      guardMeshWallet(wallet, (unsignedTxs, sign) =>
+        this.sdk.policies.enforce(web3Wallet, unsignedTxs, sign),
+      );
+    }
+    const auditLog = this.sdk.auditLog;
+    if (auditLog !== undefined) {
+      auditMeshWallet(wallet, (txHash) =>
+        auditLog.record({
+          action: "sign",
+          walletId,
+          chain: "cardano",
+          txHash,
+          context: auditContext,
+        }),
+      );
     }
 
-    throw new Error("Failed to get wallet");
+    const bitcoinWallet =
+      !guarded &&
+      chains.bitcoin !== false &&
+      web3Wallet.bitcoinMainnetPubKeyHash
+        ? this.openBitcoinWallet(key)
+        : undefined;
+    if (auditLog !== undefined && bitcoinWallet !== undefined) {
+      auditBitcoinWallet(bitcoinWallet, () =>
+        auditLog.record({
+          action: "sign",
+          walletId,
+          chain: "bitcoin",
+          context: auditContext,
+        }),
+      );
+    }
+
+    const sparkWallet =
+      !guarded && chains.spark === true && web3Wallet.sparkMainnetPubKeyHash
+        ? await this.openSparkWallet(key)
+        : undefined;
+
+    return {
+      info: web3Wallet,
+      wallet: wallet,
+      bitcoinWallet: bitcoinWallet,
+      sparkWallet: sparkWallet,
+    };
+  }
+
+  /**
+   * Returns a sign-only handle on a wallet: address getters and signing for Cardano, Bitcoin and Spark,
+   * on the network of the SDK's network profile. Unlike `getWallet`, the key is never handed out. It is
+   * decrypted for each signature and dropped right after, mnemonic word arrays are cleared. JavaScript strings
+   * cannot be overwritten in place, so the decrypted key itself is only released for garbage collection.
+   *
+   * Cardano transactions are checked against the wallet's spending policies before the key is decrypted.
+   *
+   * @param walletId - The unique identifier of the wallet.
+   * @param options.auditContext - Recorded with every decryption and signature in the SDK's audit log.
+   * @returns The signer handle, with Bitcoin and Spark signers if the wallet has keys for them.
+   * @throws Will throw an error if the private key is not found, or a `Web3SdkError` if the wallet retrieval fails.
+   */
+  async getSigner(
+    walletId: string,
+    { auditContext }: { auditContext?: AuditContext } = {},
+  ): Promise<DeveloperWalletSigner> {
+    if (this.sdk.keyCustody === undefined) {
+      throw new Error("Private key not found");
+    }
+
+    const info = await this.getWalletInfo(walletId);
+    const profile = this.sdk.networkProfile;
+
+    const session =
+      <W>(
+        open: (key: WalletKey) => W | Promise<W>,
+        close?: (wallet: W) => Promise<void>,
+      ): WalletSession<W> =>
+      async (use) => {
+        const { key } = await this.decryptWalletKey(info, auditContext);
+        try {
+          const wallet = await open(key);
+          try {
+            return await use(wallet);
+          } finally {
+            await close?.(wallet);
+          }
+        } finally {
+          wipeWalletKey(key);
+        }
+      };
+
+    const audit =
+      (chain: "cardano" | "bitcoin" | "spark") => async (txHash?: string) =>
+        this.sdk.auditLog?.record({
+          action: "sign",
+          walletId,
+          chain,
+          txHash,
+          context: auditContext,
+        });
+
+    const bitcoinPublicKey =
+      profile.bitcoin.network === "mainnet"
+        ? info.bitcoinMainnetPubKeyHash
+        : info.bitcoinTestnetPubKeyHash;
+    const sparkIdentityPublicKey =
+      profile.spark.network === "MAINNET"
+        ? info.sparkMainnetPubKeyHash
+        : info.sparkRegtestPubKeyHash;
+
+    return {
+      info,
+      cardano: new CardanoWalletSigner({
+        address: getProfileCardanoAddress(
+          profile,
+          info.pubKeyHash,
+          info.stakeCredentialHash,
+        ),
+        session: session((key) =>
+          this.openCardanoWallet(key, profile.cardano.networkId),
+        ),
+        stakeSession: info.stakeCredentialHash
+          ? session((key) =>
+              this.openCardanoWallet(key, profile.cardano.networkId, "stake"),
+            )
+          : undefined,
+        guard:
+          this.sdk.policies.policiesFor(info).length > 0
+            ? (unsignedTx, sign) =>
+                this.sdk.policies.enforce(info, [unsignedTx], sign)
+            : undefined,
+        audit: audit("cardano"),
+      }),
+      bitcoin: bitcoinPublicKey
+        ? new BitcoinWalletSigner({
+            address: getProfileBitcoinAddress(profile, bitcoinPublicKey),
+            publicKey: bitcoinPublicKey,
+            session: session((key) => this.openBitcoinWallet(key)!),
+            audit: audit("bitcoin"),
+          })
+        : undefined,
+      spark: sparkIdentityPublicKey
+        ? new SparkWalletSigner({
+            address: getProfileSparkAddress(profile, sparkIdentityPublicKey),
+            identityPublicKey: sparkIdentityPublicKey,
+            session: session(
+              async (key) => (await this.openSparkWallet(key))!,
+              (wallet) => wallet.cleanupConnections(),
+            ),
+            audit: audit("spark"),
+          })
+        : undefined,
+    };
   }
 
   async getWalletsByTag(tag: string): Promise<Web3ProjectWallet[]> {
-    if (this.sdk.privateKey === undefined) {
+    if (this.sdk.keyCustody === undefined) {
       throw new Error("Private key not found");
     }
 
-    const { data, status } = await this.sdk.axiosInstance.get(
+    const { data } = await this.sdk.transport.get(
       `api/project-wallet/${this.sdk.projectId}/tag/${tag}`,
     );
 
-    if (status === 200) {
-      const web3Wallets = data as Web3ProjectWallet[];
-      return web3Wallets;
+    return (data as StoredWallet[]).map(toProjectWallet);
+  }
+
+  /**
+   * Retrieves one page of wallets matching a filter, in creation order.
+   *
+   * @param query - The filters, e.g. `{ tags: ["deposit", "vip"], tagMode: "any" }`.
+   * @param query.cursor - The `nextCursor` of the previous page, omit for the first page.
+   * @param query.limit - The page size, at most 1000 (default: 100).
+   * @returns A promise that resolves to the wallets and the cursor of the next page.
+   *
+   * @throws {Error} If the address is not a valid bech32 address or the limit is out of range.
+   * @throws {Web3SdkError} If the request to the backend fails.
+   */
+  async queryWallets({
+    cursor,
+    limit = DEFAULT_PAGE_SIZE,
+    ...query
+  }: WalletQuery & {
+    cursor?: string;
+    limit?: number;
+  } = {}): Promise<Web3ProjectWalletPage> {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new Error(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const filter = resolveWalletQuery(query);
+    const params = new URLSearchParams();
+    for (const tag of filter.tags ?? []) {
+      params.append("tag", tag);
+    }
+    if (filter.tagMode) params.set("tagMode", filter.tagMode);
+    if (filter.pubKeyHash) params.set("pubKeyHash", filter.pubKeyHash);
+    if (filter.stakeCredentialHash) {
+      params.set("stakeCredentialHash", filter.stakeCredentialHash);
+    }
+    if (filter.includeArchived) params.set("includeArchived", "true");
+    if (cursor) params.set("cursor", cursor);
+    params.set("limit", String(limit));
+
+    const { data } = await this.sdk.transport.get(
+      `api/project-wallet/${this.sdk.projectId}/page?${params.toString()}`,
+    );
+
+    const page = data as Omit<Web3ProjectWalletPage, "wallets"> & {
+      wallets: StoredWallet[];
+    };
+    return { ...page, wallets: page.wallets.map(toProjectWallet) };
+  }
+
+  /**
+   * Streams every wallet matching a filter, one page at a time, so batch jobs never hold all wallets in memory.
+   *
+   * @param query - The filters, see `queryWallets`.
+   * @param query.pageSize - The number of wallets fetched per request (default: 100).
+   */
+  async *iterateWallets({
+    pageSize = DEFAULT_PAGE_SIZE,
+    ...query
+  }: WalletQuery & {
+    pageSize?: number;
+  } = {}): AsyncGenerator<Web3ProjectWallet> {
+    let cursor: string | undefined = undefined;
+    do {
+      const page: Web3ProjectWalletPage = await this.queryWallets({
+        ...query,
+        cursor,
+        limit: pageSize,
+      });
+      yield* page.wallets;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+  }
+
+  /**
+   * Sums the on-chain holdings of developer wallets, per wallet, per tag and in total, for every asset.
+   * Addresses are derived from the stored key hashes, so no wallet key is decrypted.
+   *
+   * @param query - The wallets to include, see `queryWallets` (default: every active wallet).
+   * @param query.concurrency - The maximum number of address lookups in flight (default: 5).
+   * @returns The holdings of each wallet at its Cardano address on the SDK's network profile, and their sums.
+   *
+   * @throws {Error} If the SDK has no `fetcher`.
+   * @throws Whatever the fetcher throws for the first address it fails on.
+   */
+  async getBalances({
+    concurrency = DEFAULT_BALANCE_CONCURRENCY,
+    ...query
+  }: WalletQuery & { concurrency?: number } = {}): Promise<TreasuryBalances> {
+    const fetcher = this.sdk.providerFetcher;
+    if (fetcher === undefined) {
+      throw new Error("Fetcher not found");
+    }
+
+    const wallets: Web3ProjectWallet[] = [];
+    for await (const wallet of this.iterateWallets(query)) {
+      wallets.push(wallet);
+    }
+
+    const holdings = await mapConcurrent(
+      wallets,
+      concurrency,
+      async (wallet): Promise<WalletHoldings> => {
+        const address = getProfileCardanoAddress(
+          this.sdk.networkProfile,
+          wallet.pubKeyHash,
+          wallet.stakeCredentialHash,
+        );
+        const utxos = await fetcher.fetchAddressUTxOs(address);
+
+        return {
+          walletId: wallet.id,
+          address,
+          tags: wallet.tags,
+          assets: sumUtxos(utxos),
+          utxoCount: utxos.length,
+        };
+      },
+    );
+
+    return aggregateHoldings(holdings);
+  }
+
+  /**
+   * Moves every UTxO of the given wallets to one destination, except UTxOs holding CIP-68 reference tokens,
+   * which stay with their datum in the wallet that minted them. Wallets are packed into consolidation
+   * transactions up to the size limit, each transaction is signed by its source wallets through `getSigner`,
+   * so spending policies and the audit log apply, and submitted with the SDK's `submitter`.
+   *
+   * A wallet that cannot be read or refuses to sign is reported as failed, and its transaction is rebuilt without it.
+   * When a submission fails, every wallet of that transaction is reported as failed.
+   *
+   * @param options - The wallets, destination and limits, see `SweepOptions`.
+   * @param options.auditContext - Recorded with every signature in the SDK's audit log.
+   * @returns The transactions, the swept amounts and fees, and the empty and failed wallets.
+   *
+   * @throws {Error} If the SDK has no `fetcher`, or no `submitter` outside a dry run, or neither wallet IDs nor tags are given.
+   */
+  async sweep({
+    destination,
+    walletIds,
+    tags,
+    dryRun = false,
+    maxTxSize = DEFAULT_SWEEP_MAX_TX_SIZE,
+    maxWalletsPerTx = DEFAULT_SWEEP_MAX_WALLETS_PER_TX,
+    concurrency = DEFAULT_BALANCE_CONCURRENCY,
+    auditContext,
+  }: SweepOptions & { auditContext?: AuditContext }): Promise<SweepReport> {
+    const fetcher = this.sdk.providerFetcher;
+    if (fetcher === undefined) {
+      throw new Error("Fetcher not found");
+    }
+    const submitter = this.sdk.providerSubmitter;
+    if (!dryRun && submitter === undefined) {
+      throw new Error("Submitter not found");
+    }
+    if (walletIds === undefined && (tags === undefined || tags.length === 0)) {
+      // sweeping the whole project by accident would be costly to undo
+      throw new Error("Sweep needs wallet IDs or tags");
+    }
+
+    const report: SweepReport = {
+      destination,
+      dryRun,
+      batches: [],
+      swept: [],
+      fees: "0",
+      empty: [],
+      failed: [],
+    };
+
+    const ids = walletIds ?? [];
+    if (walletIds === undefined) {
+      for await (const wallet of this.iterateWallets({
+        tags,
+        tagMode: "any",
+      })) {
+        ids.push(wallet.id);
+      }
+    }
+
+    const sources: SweepSource[] = [];
+    const lookups = await mapConcurrent(
+      ids,
+      concurrency,
+      async (
+        walletId,
+      ): Promise<SweepSource | { walletId: string; error: unknown }> => {
+        try {
+          const wallet = await this.getWalletInfo(walletId);
+          const address = getProfileCardanoAddress(
+            this.sdk.networkProfile,
+            wallet.pubKeyHash,
+            wallet.stakeCredentialHash,
+          );
+          const utxos = await fetcher.fetchAddressUTxOs(address);
+          return {
+            wallet,
+            address,
+            utxos: utxos.filter((utxo) => !holdsCip68ReferenceToken(utxo)),
+          };
+        } catch (error) {
+          return { walletId, error };
+        }
+      },
+    );
+    for (const lookup of lookups) {
+      if ("error" in lookup) {
+        report.failed.push(lookup);
+      } else if (lookup.utxos.length === 0) {
+        report.empty.push(lookup.wallet.id);
+      } else {
+        sources.push(lookup);
+      }
+    }
+
+    const build = async (batch: SweepSource[]) => {
+      const built = await buildSweepTx(batch, destination);
+      if (built.size > maxTxSize) {
+        throw new Error(
+          `Sweep transaction of ${built.size} bytes exceeds ${maxTxSize} bytes`,
+        );
+      }
+      return built;
+    };
+
+    // greedy packing: a wallet joins the open transaction while it still fits, else it opens the next one
+    const batches: { sources: SweepSource[]; built: SweepTx }[] = [];
+    let open: { sources: SweepSource[]; built: SweepTx } | undefined;
+    for (const source of sources) {
+      if (open !== undefined && open.sources.length < maxWalletsPerTx) {
+        const joined = [...open.sources, source];
+        const built = await build(joined).catch(() => undefined);
+        if (built !== undefined) {
+          open = { sources: joined, built };
+          continue;
+        }
+      }
+      if (open !== undefined) batches.push(open);
+      try {
+        open = { sources: [source], built: await build([source]) };
+      } catch (error) {
+        open = undefined;
+        report.failed.push({ walletId: source.wallet.id, error });
+      }
+    }
+    if (open !== undefined) batches.push(open);
+
+    for (const batch of batches) {
+      let { sources: batchSources, built } = batch;
+
+      if (!dryRun) {
+        let signedTx: string | undefined;
+        // a wallet that refuses to sign is dropped, and the others sign a rebuilt transaction
+        while (signedTx === undefined && batchSources.length > 0) {
+          const signed = await this.signSweepTx(
+            built.tx,
+            batchSources,
+            auditContext,
+          );
+          if ("signedTx" in signed) {
+            signedTx = signed.signedTx;
+            break;
+          }
+
+          report.failed.push({
+            walletId: signed.refused.wallet.id,
+            error: signed.error,
+          });
+          batchSources = batchSources.filter(
+            (source) => source !== signed.refused,
+          );
+          if (batchSources.length > 0) {
+            try {
+              built = await build(batchSources);
+            } catch (error) {
+              for (const source of batchSources) {
+                report.failed.push({ walletId: source.wallet.id, error });
+              }
+              batchSources = [];
+            }
+          }
+        }
+        if (signedTx === undefined) continue;
+
+        try {
+          await submitter!.submitTx(signedTx);
+        } catch (error) {
+          for (const source of batchSources) {
+            report.failed.push({ walletId: source.wallet.id, error });
+          }
+          continue;
+        }
+      }
+
+      report.batches.push({
+        txHash: built.txHash,
+        walletIds: batchSources.map((source) => source.wallet.id),
+        inputCount: batchSources.reduce(
+          (count, source) => count + source.utxos.length,
+          0,
+        ),
+        size: built.size,
+        fee: built.fee.toString(),
+        swept: sweptAssets(batchSources, built.fee),
+        submitted: !dryRun,
+      });
+    }
+
+    report.swept = sumAssets(report.batches.map((batch) => batch.swept));
+    report.fees = report.batches
+      .reduce((fees, batch) => fees + BigInt(batch.fee), 0n)
+      .toString();
+    return report;
+  }
+
+  /**
+   * Looks up a wallet by its payment key hash, stake credential hash or bech32 address, archived wallets included.
+   *
+   * @returns A promise that resolves to the first matching wallet, or `undefined` if there is none.
+   */
+  async findWallet(
+    lookup:
+      | { pubKeyHash: string }
+      | { stakeCredentialHash: string }
+      | { address: string },
+  ): Promise<Web3ProjectWallet | undefined> {
+    const { wallets } = await this.queryWallets({
+      ...lookup,
+      includeArchived: true,
+      limit: 1,
+    });
+    return wallets[0];
+  }
+
+  /**
+   * Retrieves a wallet by its ID without decrypting its key, archived wallets included.
+   *
+   * @param walletId - The unique identifier of the wallet to retrieve.
+   * @returns A promise that resolves to the wallet with its key still encrypted.
+   *
+   * @throws {Web3SdkNotFoundError} If the wallet does not exist.
+   */
+  async getWalletInfo(walletId: string): Promise<Web3ProjectWallet> {
+    const { data } = await this.sdk.transport.get(
+      `api/project-wallet/${this.sdk.projectId}/${walletId}`,
+    );
+
+    return toProjectWallet(data as StoredWallet);
+  }
+
+  /**
+   * Adds tags to a wallet. Tags the wallet already has are skipped.
+   * The backend applies the change to the stored tags, so concurrent tag changes are all kept.
+   *
+   * @param walletId - The wallet to tag.
+   * @param tags - The tags to add.
+   * @returns A promise that resolves to the updated wallet.
+   */
+  async addTags(walletId: string, tags: string[]): Promise<Web3ProjectWallet> {
+    return this.updateTags(walletId, { add: tags });
+  }
+
+  /**
+   * Removes tags from a wallet. Tags the wallet does not have are ignored.
+   * The backend applies the change to the stored tags, so concurrent tag changes are all kept.
+   *
+   * @param walletId - The wallet to untag.
+   * @param tags - The tags to remove.
+   * @returns A promise that resolves to the updated wallet.
+   */
+  async removeTags(
+    walletId: string,
+    tags: string[],
+  ): Promise<Web3ProjectWallet> {
+    return this.updateTags(walletId, { remove: tags });
+  }
+
+  /**
+   * Renames a wallet and attaches metadata. Metadata is merged into the existing metadata,
+   * keys set to `null` are removed.
+   *
+   * @param walletId - The wallet to update.
+   * @param options.name - The new display name, `null` removes it.
+   * @param options.metadata - The metadata to merge.
+   * @returns A promise that resolves to the updated wallet.
+   */
+  async updateWalletDetails(
+    walletId: string,
+    {
+      name,
+      metadata,
+    }: {
+      name?: string | null;
+      metadata?: Record<string, Web3ProjectWalletMetadata[string] | null>;
+    },
+  ): Promise<Web3ProjectWallet> {
+    const update: Web3ProjectWalletUpdate = {};
+    if (name !== undefined) {
+      update.name = name;
+    }
+    if (metadata !== undefined) {
+      const wallet = await this.getWalletInfo(walletId);
+      const merged: Web3ProjectWalletMetadata = { ...wallet.metadata };
+      for (const [key, value] of Object.entries(metadata)) {
+        if (value === null) {
+          delete merged[key];
+        } else {
+          merged[key] = value;
+        }
+      }
+      update.metadata = merged;
+    }
+
+    return this.updateWallet(walletId, update);
+  }
+
+  /**
+   * Archives a wallet, so it drops out of `getWallets` and `getWalletsByTag`.
+   * The wallet keeps its keys and can still be fetched by ID and unarchived.
+   *
+   * @param walletId - The wallet to archive.
+   * @returns A promise that resolves to the archived wallet.
+   */
+  async archiveWallet(walletId: string): Promise<Web3ProjectWallet> {
+    return this.updateWallet(walletId, { archivedAt: new Date() });
+  }
+
+  /**
+   * Restores an archived wallet.
+   *
+   * @param walletId - The wallet to restore.
+   * @returns A promise that resolves to the restored wallet.
+   */
+  async unarchiveWallet(walletId: string): Promise<Web3ProjectWallet> {
+    return this.updateWallet(walletId, { archivedAt: null });
+  }
+
+  /**
+   * Permanently deletes a wallet and its encrypted key.
+   * The wallet must be empty: its Cardano address is checked with `providerFetcher`, and its Bitcoin address
+   * with `bitcoinProvider` when one is configured. Spark balances are not checked.
+   *
+   * @param walletId - The wallet to delete.
+   * @param options.skipFundsCheck - Delete without checking for funds, the keys are lost for good.
+   *
+   * @throws {WalletHasFundsError} If the wallet still holds funds.
+   * @throws {Error} If no `providerFetcher` is configured to check for funds.
+   */
+  async deleteWallet(
+    walletId: string,
+    { skipFundsCheck = false }: { skipFundsCheck?: boolean } = {},
+  ): Promise<void> {
+    if (!skipFundsCheck) {
+      const wallet = await this.getWalletInfo(walletId);
+      await this.assertWalletIsEmpty(wallet);
+    }
+
+    await this.sdk.transport.delete(
+      `api/project-wallet/${this.sdk.projectId}/${walletId}`,
+    );
+  }
+
+  private async assertKeyExportAllowed() {
+    // read fresh, a cached project would keep exporting after an admin disables export
+    const project = await this.sdk.getProject({ refresh: true });
+    if (project.disableKeyExport) {
+      throw new WalletKeyExportDisabledError();
+    }
+  }
+
+  /**
+   * Signs a sweep transaction with each source wallet in turn, stopping at the first wallet that refuses.
+   */
+  private async signSweepTx(
+    tx: string,
+    sources: SweepSource[],
+    auditContext?: AuditContext,
+  ): Promise<{ signedTx: string } | { refused: SweepSource; error: unknown }> {
+    for (const source of sources) {
+      try {
+        const signer = await this.getSigner(source.wallet.id, {
+          auditContext,
+        });
+        tx = await signer.cardano.signTx(tx, true);
+      } catch (error) {
+        return { refused: source, error };
+      }
+    }
+    return { signedTx: tx };
+  }
+
+  private async decryptWalletKey(
+    web3Wallet: Web3ProjectWallet,
+    auditContext?: AuditContext,
+  ): Promise<{ secret: string; key: WalletKey }> {
+    const secret = await this.sdk.useKeyCustody(async (keyCustody) => {
+      const encryptedKey =
+        web3Wallet.keyType === "derived"
+          ? await this.getEncryptedMasterSeed()
+          : web3Wallet.key;
+      return timed(
+        () => keyCustody.decrypt(encryptedKey),
+        (durationMs, error) =>
+          this.sdk.emit({
+            type: "wallet-decrypt",
+            walletId: web3Wallet.id,
+            durationMs,
+            error,
+          }),
+      );
+    });
+    await this.sdk.auditLog?.record({
+      action: "decrypt",
+      walletId: web3Wallet.id,
+      context: auditContext,
+    });
+
+    const key: WalletKey =
+      web3Wallet.keyType === "derived"
+        ? {
+            type: "derived",
+            words: secret.split(" "),
+            accountIndex: web3Wallet.derivationIndex!,
+          }
+        : parseWalletKey(web3Wallet.keyType, secret);
+
+    return { secret, key };
+  }
+
+  private async openCardanoWallet(
+    key: WalletKey,
+    networkId: 0 | 1,
+    accountType?: "payment" | "stake",
+  ): Promise<MeshWallet> {
+    const wallet = new MeshWallet({
+      networkId: networkId,
+      key: toMeshWalletKey(key),
+      accountIndex: key.type === "derived" ? key.accountIndex : undefined,
+      accountType,
+      fetcher: this.sdk.providerFetcher,
+      submitter: this.sdk.providerSubmitter,
+    });
+    await wallet.init();
+    return wallet;
+  }
+
+  private openBitcoinWallet(key: WalletKey): EmbeddedWallet | undefined {
+    if (key.type !== "mnemonic" && key.type !== "derived") return undefined;
+
+    const network = this.sdk.networkProfile.bitcoin.walletNetwork;
+    return new EmbeddedWallet({
+      network,
+      key: {
+        type: "mnemonic",
+        words: key.words,
+      },
+      path: getBitcoinPath(
+        network,
+        key.type === "derived" ? key.accountIndex : undefined,
+      ),
+      provider: this.sdk.bitcoinProvider,
+    });
+  }
+
+  private async openSparkWallet(
+    key: WalletKey,
+  ): Promise<SparkWallet | undefined> {
+    if (key.type !== "mnemonic" && key.type !== "derived") return undefined;
+
+    const { wallet } = await SparkWallet.initialize({
+      mnemonicOrSeed: key.words.join(" "),
+      accountNumber: key.type === "derived" ? key.accountIndex : undefined,
+      options: {
+        network: this.sdk.networkProfile.spark.network,
+      },
+    });
+    return wallet;
+  }
+
+  private async getEncryptedMasterSeed(): Promise<string> {
+    const { data } = await this.sdk.transport.get(
+      `api/project/${this.sdk.projectId}/master-seed`,
+    );
+    return (data as { key: string }).key;
+  }
+
+  private async getMasterSeed(auditContext?: AuditContext): Promise<string[]> {
+    const mnemonic = await this.sdk.useKeyCustody(async (keyCustody) =>
+      keyCustody.decrypt(await this.getEncryptedMasterSeed()),
+    );
+    await this.sdk.auditLog?.record({
+      action: "decrypt",
+      context: auditContext,
+    });
+    return mnemonic.split(" ");
+  }
+
+  /**
+   * Returns the master seed, creating it if the project has none. When two callers race to create it,
+   * the backend keeps the first and the other reads it back.
+   */
+  private async ensureMasterSeed(): Promise<string[]> {
+    try {
+      return await this.getMasterSeed();
+    } catch (error) {
+      if (!(error instanceof Web3SdkNotFoundError)) throw error;
+    }
+
+    const project = await this.sdk.getProject();
+    if (!project.publicKey) {
+      throw new Error("Project public key not found");
+    }
+
+    const mnemonic = MeshWallet.brew() as string[];
+    try {
+      await this.sdk.transport.post(
+        `api/project/${this.sdk.projectId}/master-seed`,
+        {
+          key: await encryptWithPublicKey({
+            publicKey: project.publicKey,
+            data: mnemonic.join(" "),
+          }),
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof Web3SdkError && error.status === 409)) throw error;
+      return this.getMasterSeed();
     }
+    return mnemonic;
+  }
+
+  private async deriveCardanoKeys(key: WalletKey) {
+    const _wallet = new MeshWallet({
+      networkId: this.sdk.networkProfile.cardano.networkId,
+      key: toMeshWalletKey(key),
+      accountIndex: key.type === "derived" ? key.accountIndex : undefined,
+      fetcher: this.sdk.providerFetcher,
+      submitter: this.sdk.providerSubmitter,
+    });
+    await _wallet.init();
+
+    const addresses = await _wallet.getAddresses();
+    const { pubKeyHash, stakeCredentialHash } = deserializeBech32Address(
+      (addresses.baseAddressBech32 ?? addresses.enterpriseAddressBech32)!,
+    );
 
-    throw new Error("Failed to get wallet");
+    return { pubKeyHash, stakeCredentialHash };
   }
+
+  private async preflightWallet() {
+    if (this.sdk.preflightCredits) {
+      await this.sdk.usage.ensureCredits("wallet");
+    }
+  }
+
+  private async registerWallet(
+    key: WalletKey,
+    {
+      pubKeyHash,
+      stakeCredentialHash,
+    }: { pubKeyHash: string; stakeCredentialHash: string },
+    { tags, name, metadata, chains = {} }: WalletRegistrationOptions,
+  ): Promise<Web3ProjectWallet> {
+    const project = await this.sdk.getProject();
+
+    if (!project.publicKey) {
+      throw new Error("Project public key not found");
+    }
+
+    const encryptedKey =
+      key.type === "derived"
+        ? ""
+        : await encryptWithPublicKey({
+            publicKey: project.publicKey,
+            data: serializeWalletKey(key),
+          });
+
+    const hasMnemonic = key.type === "mnemonic" || key.type === "derived";
+    const accountIndex = key.type === "derived" ? key.accountIndex : undefined;
+    const bitcoinKeys =
+      chains.bitcoin === false || !hasMnemonic
+        ? { bitcoinMainnetPubKeyHash: null, bitcoinTestnetPubKeyHash: null }
+        : getBitcoinKeys(key.words, accountIndex);
+    const sparkKeys =
+      chains.spark !== true || !hasMnemonic
+        ? {
+            sparkMainnetPubKeyHash: null,
+            sparkRegtestPubKeyHash: null,
+            sparkMainnetStaticDepositAddress: null,
+            sparkRegtestStaticDepositAddress: null,
+          }
+        : await getSparkKeys(key.words, accountIndex);
+
+    // create wallet
+
+    const web3Wallet: Web3ProjectWallet = {
+      id: uuidv4(),
+      key: encryptedKey,
+      keyType: key.type,
+      ...(key.type === "derived" && { derivationIndex: key.accountIndex }),
+      tags: tags || [],
+      projectId: this.sdk.projectId,
+      pubKeyHash: pubKeyHash,
+      stakeCredentialHash: stakeCredentialHash,
+      ...bitcoinKeys,
+      ...sparkKeys,
+      name: name ?? null,
+      metadata: metadata ?? {},
+      archivedAt: null,
+    };
+
+    // the wallet id doubles as idempotency key, so a retried request never registers a second wallet
+    const { data } = await this.sdk.transport.post(
+      `api/project-wallet`,
+      web3Wallet,
+      { headers: { [IDEMPOTENCY_KEY_HEADER]: web3Wallet.id } },
+    );
+
+    return toProjectWallet(data as StoredWallet);
+  }
+
+  private async updateWallet(
+    walletId: string,
+    update: Web3ProjectWalletUpdate,
+  ): Promise<Web3ProjectWallet> {
+    const { data } = await this.sdk.transport.put(
+      `api/project-wallet/${this.sdk.projectId}/${walletId}`,
+      update,
+    );
+
+    return toProjectWallet(data as StoredWallet);
+  }
+
+  private async updateTags(
+    walletId: string,
+    update: Web3ProjectWalletTagsUpdate,
+  ): Promise<Web3ProjectWallet> {
+    const { data } = await this.sdk.transport.post(
+      `api/project-wallet/${this.sdk.projectId}/${walletId}/tags`,
+      update,
+    );
+
+    return toProjectWallet(data as StoredWallet);
+  }
+
+  private async assertWalletIsEmpty(wallet: Web3ProjectWallet) {
+    if (this.sdk.providerFetcher === undefined) {
+      throw new Error(
+        "Cannot check the wallet for funds without a providerFetcher",
+      );
+    }
+
+    const profile = this.sdk.networkProfile;
+    const address = getProfileCardanoAddress(
+      profile,
+      wallet.pubKeyHash,
+      wallet.stakeCredentialHash,
+    );
+    const utxos = await this.sdk.providerFetcher.fetchAddressUTxOs(address);
+    if (utxos.length > 0) {
+      throw new WalletHasFundsError(wallet.id, address);
+    }
+
+    const bitcoinPubKey =
+      profile.bitcoin.network === "mainnet"
+        ? wallet.bitcoinMainnetPubKeyHash
+        : wallet.bitcoinTestnetPubKeyHash;
+    if (this.sdk.bitcoinProvider && bitcoinPubKey) {
+      const bitcoinAddress = getProfileBitcoinAddress(profile, bitcoinPubKey);
+      const bitcoinUtxos =
+        await this.sdk.bitcoinProvider.fetchAddressUTxOs(bitcoinAddress);
+      if (bitcoinUtxos.length > 0) {
+        throw new WalletHasFundsError(wallet.id, bitcoinAddress);
+      }
+    }
+  }
+}
+
+export class WalletKeyExportDisabledError extends Error {
+  constructor() {
+    super("Key export is disabled for this project, use a signer instead");
+    this.name = "WalletKeyExportDisabledError";
+  }
+}
+
+export class WalletSpendingPolicyError extends Error {
+  readonly walletId: string;
+
+  constructor(walletId: string) {
+    super(
+      `Spending policies apply to wallet ${walletId}, its key cannot be exported, use a signer instead`,
+    );
+    this.name = "WalletSpendingPolicyError";
+    this.walletId = walletId;
+  }
+}
+
+export class WalletAlreadyExistsError extends Error {
+  readonly walletId: string;
+
+  constructor(walletId: string) {
+    super(`Key is already registered as wallet ${walletId}`);
+    this.name = "WalletAlreadyExistsError";
+    this.walletId = walletId;
+  }
+}
+
+export class WalletHasFundsError extends Error {
+  readonly walletId: string;
+  readonly address: string;
+
+  constructor(walletId: string, address: string) {
+    super(`Wallet ${walletId} still holds funds at ${address}`);
+    this.name = "WalletHasFundsError";
+    this.walletId = walletId;
+    this.address = address;
+  }
+}
+
+function resolveWalletQuery({
+  address,
+  ...filter
+}: WalletQuery): Web3ProjectWalletFilter {
+  if (address === undefined) {
+    return filter;
+  }
+
+  let credentials: { pubKeyHash: string; stakeCredentialHash: string };
+  try {
+    credentials = deserializeBech32Address(address);
+  } catch {
+    throw new Error(`Invalid bech32 address: ${address}`);
+  }
+
+  return {
+    ...filter,
+    pubKeyHash: credentials.pubKeyHash,
+    stakeCredentialHash: credentials.stakeCredentialHash || undefined,
+  };
+}
+
+/**
+ * Validates an imported key and brings it into the stored form.
+ */
+function normalizeImportKey(key: WalletImportKey): WalletKey {
+  switch (key.type) {
+    case "mnemonic": {
+      const words = (
+        typeof key.words === "string"
+          ? key.words.trim().split(/\s+/)
+          : key.words
+      ).map((word) => word.toLowerCase());
+      try {
+        mnemonicToEntropy(words.join(" "));
+      } catch {
+        throw new Error("Invalid mnemonic");
+      }
+      return { type: "mnemonic", words };
+    }
+    case "root": {
+      const bech32 = key.bech32.trim();
+      if (!bech32.startsWith("xprv1") || !isRootKey(bech32)) {
+        throw new Error("Invalid root key, expected a bech32 xprv1 key");
+      }
+      return { type: "root", bech32 };
+    }
+    case "cli": {
+      const payment = parseCliSigningKey(key.payment);
+      const stake =
+        key.stake === undefined ? undefined : parseCliSigningKey(key.stake);
+      return stake === undefined
+        ? { type: "cli", payment }
+        : { type: "cli", payment, stake };
+    }
+    default:
+      throw new Error("Unsupported key type");
+  }
+}
+
+/**
+ * Whether a bech32 key decodes, checksum included, to a BIP32-Ed25519 root key of 96 bytes.
+ */
+function isRootKey(bech32: string): boolean {
+  try {
+    const keyHex = WalletStaticMethods.privateKeyBech32ToPrivateKeyHex(bech32);
+    return keyHex.length === ROOT_KEY_LENGTH * 2;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Accepts the `cborHex` of a cardano-cli signing key, or the text envelope of the `.skey` file.
+ */
+function parseCliSigningKey(key: string): string {
+  let cborHex = key.trim();
+  if (cborHex.startsWith("{")) {
+    try {
+      cborHex = String(JSON.parse(cborHex).cborHex);
+    } catch {
+      throw new Error("Invalid cardano-cli signing key file");
+    }
+  }
+  if (!CLI_SIGNING_KEY_PATTERN.test(cborHex)) {
+    throw new Error("Invalid cardano-cli signing key, expected a 5820 cborHex");
+  }
+  return cborHex.toLowerCase();
+}
+
+// fields added after the first wallets were saved, the backend returns older rows without them
+type StoredWalletField =
+  | "key"
+  | "tags"
+  | "bitcoinMainnetPubKeyHash"
+  | "bitcoinTestnetPubKeyHash"
+  | "sparkMainnetPubKeyHash"
+  | "sparkRegtestPubKeyHash"
+  | "sparkMainnetStaticDepositAddress"
+  | "sparkRegtestStaticDepositAddress"
+  | "name"
+  | "metadata"
+  | "archivedAt";
+
+type StoredWallet = Omit<Web3ProjectWallet, StoredWalletField> & {
+  [K in StoredWalletField]?: Web3ProjectWallet[K] | null;
+};
+
+function toProjectWallet(wallet: StoredWallet): Web3ProjectWallet {
+  return {
+    ...wallet,
+    key: wallet.key ?? "",
+    tags: wallet.tags ?? [],
+    bitcoinMainnetPubKeyHash: wallet.bitcoinMainnetPubKeyHash ?? null,
+    bitcoinTestnetPubKeyHash: wallet.bitcoinTestnetPubKeyHash ?? null,
+    sparkMainnetPubKeyHash: wallet.sparkMainnetPubKeyHash ?? null,
+    sparkRegtestPubKeyHash: wallet.sparkRegtestPubKeyHash ?? null,
+    sparkMainnetStaticDepositAddress:
+      wallet.sparkMainnetStaticDepositAddress ?? null,
+    sparkRegtestStaticDepositAddress:
+      wallet.sparkRegtestStaticDepositAddress ?? null,
+    name: wallet.name ?? null,
+    metadata: wallet.metadata ?? {},
+    archivedAt: wallet.archivedAt ?? null,
+  };
+}
+
+// mnemonics are stored as plain words, so wallets created before imports existed keep working
+function serializeWalletKey(key: WalletKey): string {
+  switch (key.type) {
+    case "mnemonic":
+      return key.words.join(" ");
+    case "root":
+      return key.bech32;
+    case "cli":
+      return JSON.stringify({ payment: key.payment, stake: key.stake });
+    case "derived":
+      throw new Error("Derived keys are not stored");
+  }
+}
+
+function parseWalletKey(
+  keyType: Exclude<Web3ProjectWallet["keyType"], "derived">,
+  secret: string,
+): WalletKey {
+  switch (keyType ?? "mnemonic") {
+    case "mnemonic":
+      return { type: "mnemonic", words: secret.split(" ") };
+    case "root":
+      return { type: "root", bech32: secret };
+    case "cli":
+      return { type: "cli", ...JSON.parse(secret) };
+  }
+}
+
+function wipeWalletKey(key: WalletKey) {
+  if (key.type === "mnemonic" || key.type === "derived") {
+    key.words.fill("");
+  }
+}
+
+function toMeshWalletKey(key: WalletKey) {
+  if (key.type === "derived") {
+    return { type: "mnemonic" as const, words: key.words };
+  }
+  return key.type === "cli" && key.stake === undefined
+    ? { type: key.type, payment: key.payment }
+    : key;
+}
+
+/**
+ * The BIP-84 path of an account, `undefined` keeps the wallet's default path, which is account 0.
+ */
+function getBitcoinPath(
+  network: "Mainnet" | "Testnet" | "Regtest",
+  accountIndex: number | undefined,
+) {
+  if (accountIndex === undefined) return undefined;
+  const coinType = network === "Mainnet" ? 0 : 1;
+  return `m/84'/${coinType}'/${accountIndex}'/0/0`;
+}
+
+function getBitcoinKeys(mnemonic: string[], accountIndex?: number) {
+  const [bitcoinMainnetPubKeyHash, bitcoinTestnetPubKeyHash] = (
+    ["Mainnet", "Testnet"] as const
+  ).map((network) =>
+    new EmbeddedWallet({
+      network,
+      key: {
+        type: "mnemonic",
+        words: mnemonic,
+      },
+      path: getBitcoinPath(network, accountIndex),
+    }).getPublicKey(),
+  );
+
+  return {
+    bitcoinMainnetPubKeyHash: bitcoinMainnetPubKeyHash!,
+    bitcoinTestnetPubKeyHash: bitcoinTestnetPubKeyHash!,
+  };
+}
+
+async function getSparkKeys(mnemonic: string[], accountIndex?: number) {
+  const [mainnet, regtest] = await Promise.all(
+    (["MAINNET", "REGTEST"] as const).map(async (network) => {
+      const { wallet } = await SparkWallet.initialize({
+        mnemonicOrSeed: mnemonic.join(" "),
+        accountNumber: accountIndex,
+        options: {
+          network,
+        },
+      });
+
+      try {
+        const [identityPublicKey, staticDepositAddress] = await Promise.all([
+          wallet.getIdentityPublicKey(),
+          wallet.getStaticDepositAddress(),
+        ]);
+        return { identityPublicKey, staticDepositAddress };
+      } finally {
+        await wallet.cleanupConnections();
+      }
+    }),
+  );
+
+  return {
+    sparkMainnetPubKeyHash: mainnet!.identityPublicKey,
+    sparkRegtestPubKeyHash: regtest!.identityPublicKey,
+    sparkMainnetStaticDepositAddress: mainnet!.staticDepositAddress,
+    sparkRegtestStaticDepositAddress: regtest!.staticDepositAddress,
+  };
 }
@@ -0,0 +1,275 @@
+import { CIP68_100, CIP68_222, stringToHex, UTxO } from "@meshsdk/common";
+import { deserializeTx, resolveTxHash } from "@meshsdk/core-cst";
+import { getProfileCardanoAddress } from "../network";
+import {
+  mockFetcher,
+  mockSdk,
+  mockSubmitter,
+} from "../transport/mock-fixtures";
+import { MintingPolicyLockedError } from ".";
+
+describe("WalletMinting", () => {
+  async function setup() {
+    const utxos: Record<string, UTxO[]> = {};
+    const submitted: string[] = [];
+    const { sdk } = await mockSdk({
+      fetcher: mockFetcher({
+        fetchAddressUTxOs: async (address: string) => utxos[address] ?? [],
+      }),
+      submitter: mockSubmitter({
+        submitTx: async (tx: string) => {
+          submitted.push(tx);
+          return resolveTxHash(tx);
+        },
+      }),
+    });
+
+    const wallet = await sdk.wallet.createWallet();
+    const address = getProfileCardanoAddress(
+      sdk.networkProfile,
+      wallet.pubKeyHash,
+      wallet.stakeCredentialHash,
+    );
+    utxos[address] = [
+      {
+        input: { txHash: "00".repeat(32), outputIndex: 0 },
+        output: {
+          address,
+          amount: [{ unit: "lovelace", quantity: "100000000" }],
+        },
+      },
+    ];
+
+    return { sdk, wallet, address, utxos, submitted };
+  }
+
+  it("saves time-locked policies with the wallet", async () => {
+    const { sdk, wallet } = await setup();
+    const lockAt = new Date(Date.now() + 30 * 24 * 3600 * 1000);
+
+    const policy = await sdk.wallet.minting.createPolicy(wallet.id, {
+      lockAt,
+      name: "Tickets",
+    });
+    expect(policy.script).toEqual({
+      type: "all",
+      scripts: [
+        { type: "sig", keyHash: wallet.pubKeyHash },
+        { type: "before", slot: policy.lockSlot.toString() },
+      ],
+    });
+
+    // the same lock gives the same policy, it is saved once
+    await sdk.wallet.minting.createPolicy(wallet.id, { lockAt });
+    const saved = await sdk.wallet.minting.getPolicies(wallet.id);
+    expect(saved.map((policy) => policy.policyId)).toEqual([policy.policyId]);
+    expect(saved[0]!.scriptCbor).toBe(policy.scriptCbor);
+  });
+
+  it("keeps every policy created at the same time", async () => {
+    const { sdk, wallet } = await setup();
+    const now = Date.now();
+
+    const policies = await Promise.all(
+      [1, 2, 3].map((days) =>
+        sdk.wallet.minting.createPolicy(wallet.id, {
+          lockAt: new Date(now + days * 24 * 3600 * 1000),
+        }),
+      ),
+    );
+    expect(
+      (await sdk.wallet.minting.getPolicies(wallet.id))
+        .map((policy) => policy.policyId)
+        .sort(),
+    ).toEqual(policies.map((policy) => policy.policyId).sort());
+  });
+
+  it("mints CIP-68 tokens to a user and keeps the reference token", async () => {
+    const { sdk, wallet, address, utxos, submitted } = await setup();
+    const user = await sdk.wallet.createWallet();
+    const recipient = getProfileCardanoAddress(
+      sdk.networkProfile,
+      user.pubKeyHash,
+      user.stakeCredentialHash,
+    );
+    const { policyId, lockSlot } = await sdk.wallet.minting.createPolicy(
+      wallet.id,
+      { lockAt: new Date(Date.now() + 3600 * 1000) },
+    );
+
+    const result = await sdk.wallet.minting.mint({
+      walletId: wallet.id,
+      policyId,
+      standard: "cip68",
+      assets: [
+        {
+          name: "Ticket 1",
+          metadata: { name: "Ticket 1", image: "ipfs://ticket" },
+          recipient,
+        },
+      ],
+    });
+
+    const nameHex = stringToHex("Ticket 1");
+    const referenceUnit = policyId + CIP68_100(nameHex);
+    const userUnit = policyId + CIP68_222(nameHex);
+    expect(result.units).toEqual([referenceUnit, userUnit]);
+
+    const tx = deserializeTx(submitted[0]!).toCore();
+    expect(tx.body.validityInterval?.invalidHereafter).toBe(lockSlot);
+    expect([...tx.body.mint!]).toEqual([
+      [referenceUnit, 1n],
+      [userUnit, 1n],
+    ]);
+    const reference = tx.body.outputs.find((output) =>
+      output.value.assets?.has(referenceUnit as never),
+    )!;
+    expect(reference.address).toBe(address);
+    expect(reference.datum).toBeDefined();
+    const minted = tx.body.outputs.find((output) =>
+      output.value.assets?.has(userUnit as never),
+    )!;
+    expect(minted.address).toBe(recipient);
+    expect(tx.witness.signatures.size).toBe(1);
+
+    // a sweep moves the change but leaves the reference token with its datum
+    utxos[address] = tx.body.outputs.flatMap((output, outputIndex) =>
+      output.address === address
+        ? [
+            {
+              input: { txHash: result.txHash, outputIndex },
+              output: {
+                address,
+                amount: [
+                  { unit: "lovelace", quantity: output.value.coins.toString() },
+                  ...[...(output.value.assets ?? [])].map(
+                    ([unit, quantity]) => ({
+                      unit,
+                      quantity: quantity.toString(),
+                    }),
+                  ),
+                ],
+              },
+            },
+          ]
+        : [],
+    );
+    const sweep = await sdk.wallet.sweep({
+      destination: recipient,
+      walletIds: [wallet.id],
+    });
+    expect(sweep.batches).toHaveLength(1);
+    const swept = deserializeTx(submitted[1]!).toCore().body;
+    expect(swept.inputs).toHaveLength(1);
+    expect(
+      swept.outputs.some((output) =>
+        output.value.assets?.has(referenceUnit as never),
+      ),
+    ).toBe(false);
+  });
+
+  it("mints tokens into the wallet and burns them", async () => {
+    const { sdk, wallet, address, utxos, submitted } = await setup();
+    const { policyId } = await sdk.wallet.minting.createPolicy(wallet.id, {
+      lockAt: new Date(Date.now() + 3600 * 1000),
+    });
+
+    const { txHash, units } = await sdk.wallet.minting.mint({
+      walletId: wallet.id,
+      policyId,
+      assets: [{ name: "Point", quantity: "100" }],
+    });
+    const mintTx = deserializeTx(submitted[0]!).toCore();
+
+    // the tokens stay in the wallet, with the change
+    utxos[address] = mintTx.body.outputs.map((output, outputIndex) => ({
+      input: { txHash, outputIndex },
+      output: {
+        address,
+        amount: [
+          { unit: "lovelace", quantity: output.value.coins.toString() },
+          ...[...(output.value.assets ?? [])].map(([unit, quantity]) => ({
+            unit,
+            quantity: quantity.toString(),
+          })),
+        ],
+      },
+    }));
+
+    await sdk.wallet.minting.burn({
+      walletId: wallet.id,
+      policyId,
+      assets: [{ unit: units[0]!, quantity: "40" }],
+    });
+    const burnTx = deserializeTx(submitted[1]!).toCore();
+    expect([...burnTx.body.mint!]).toEqual([[units[0], -40n]]);
+
+    await expect(
+      sdk.wallet.minting.burn({
+        walletId: wallet.id,
+        policyId,
+        assets: [{ unit: units[0]!, quantity: "101" }],
+      }),
+    ).rejects.toThrow("cannot burn 101");
+  });
+
+  it("keeps the datum of a reference token spent by a burn and rejects repeated names", async () => {
+    const { sdk, wallet, address, utxos, submitted } = await setup();
+    const { policyId } = await sdk.wallet.minting.createPolicy(wallet.id, {
+      lockAt: new Date(Date.now() + 3600 * 1000),
+    });
+    const pointUnit = policyId + stringToHex("Point");
+    const referenceUnit = policyId + CIP68_100(stringToHex("Ticket"));
+    utxos[address] = [
+      {
+        input: { txHash: "11".repeat(32), outputIndex: 0 },
+        output: {
+          address,
+          amount: [
+            { unit: "lovelace", quantity: "100000000" },
+            { unit: pointUnit, quantity: "10" },
+            { unit: referenceUnit, quantity: "1" },
+          ],
+          plutusData: "d87980",
+        },
+      },
+    ];
+
+    await sdk.wallet.minting.burn({
+      walletId: wallet.id,
+      policyId,
+      assets: [{ unit: pointUnit, quantity: "10" }],
+    });
+    const reference = deserializeTx(submitted[0]!)
+      .toCore()
+      .body.outputs.find((output) =>
+        output.value.assets?.has(referenceUnit as never),
+      )!;
+    expect(reference.address).toBe(address);
+    expect(reference.datum).toBeDefined();
+
+    await expect(
+      sdk.wallet.minting.mint({
+        walletId: wallet.id,
+        policyId,
+        assets: [{ name: "Point" }, { name: "Point" }],
+      }),
+    ).rejects.toThrow("Asset name Point is repeated");
+  });
+
+  it("refuses to mint under a closed policy", async () => {
+    const { sdk, wallet, submitted } = await setup();
+    const { policyId } = await sdk.wallet.minting.createPolicy(wallet.id, {
+      lockAt: 1000,
+    });
+
+    await expect(
+      sdk.wallet.minting.mint({
+        walletId: wallet.id,
+        policyId,
+        assets: [{ name: "Late" }],
+      }),
+    ).rejects.toThrow(MintingPolicyLockedError);
+    expect(submitted).toEqual([]);
+  });
+});
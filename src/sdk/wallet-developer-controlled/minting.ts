@@ -0,0 +1,396 @@
+import { Web3Sdk } from "..";
+import {
+  Asset,
+  CIP68_100,
+  CIP68_222,
+  isNetwork,
+  metadataToCip68,
+  NativeScript,
+  POLICY_ID_LENGTH,
+  resolveSlotNo,
+  stringToHex,
+  UTxO,
+} from "@meshsdk/common";
+import {
+  resolveNativeScriptHash,
+  toNativeScript,
+  toPlutusData,
+} from "@meshsdk/core-cst";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { Web3MintingPolicy } from "../../types";
+import { AuditContext } from "../audit-log";
+
+export type MintingStandard = "cip25" | "cip68";
+
+export type MintAsset = {
+  /** The token name as text, hex encoded on chain. */
+  name: string;
+  /** The quantity of (user) tokens to mint (default: "1"). */
+  quantity?: string;
+  /** CIP-25 metadata, or the CIP-68 datum fields, e.g. `{ name, image }`. */
+  metadata?: Record<string, unknown>;
+  /** The address that receives the tokens, the minting wallet keeps them when not set. */
+  recipient?: string;
+};
+
+export type MintResult = {
+  txHash: string;
+  policyId: string;
+  /** The units minted, CIP-68 tokens with their reference and user unit. */
+  units: string[];
+};
+
+/**
+ * Whether a UTxO holds a CIP-68 reference token (label 100). Its inline datum carries the token metadata,
+ * so it must not be spent by coin selection, sweeps or payouts, which would move the token without its datum.
+ */
+export function holdsCip68ReferenceToken(utxo: UTxO): boolean {
+  return utxo.output.amount.some((asset) => isCip68ReferenceUnit(asset.unit));
+}
+
+function isCip68ReferenceUnit(unit: string): boolean {
+  return unit.slice(POLICY_ID_LENGTH).startsWith(CIP68_100(""));
+}
+
+export class MintingPolicyLockedError extends Error {
+  readonly policyId: string;
+  readonly lockSlot: number;
+
+  constructor(policyId: string, lockSlot: number) {
+    super(`Minting policy ${policyId} closed at slot ${lockSlot}`);
+    this.name = "MintingPolicyLockedError";
+    this.policyId = policyId;
+    this.lockSlot = lockSlot;
+  }
+}
+
+/**
+ * The `WalletMinting` class mints and burns tokens under time-locked native-script policies owned by developer wallets.
+ *
+ * A policy requires the signature of its wallet and closes at a slot, which fixes the supply for good after that slot.
+ * Policies are saved with the wallet in `Web3ProjectWallet.mintingPolicies`. Transactions are signed through
+ * `getSigner`, so spending policies and the audit log apply, and submitted with the SDK's `submitter`.
+ *
+ * ```ts
+ * const policy = await sdk.wallet.minting.createPolicy(walletId, { lockAt: new Date("2030-01-01") });
+ * await sdk.wallet.minting.mint({
+ *   walletId,
+ *   policyId: policy.policyId,
+ *   standard: "cip68",
+ *   assets: [{ name: "Ticket 1", metadata: { name: "Ticket 1", image: "ipfs://..." }, recipient }],
+ * });
+ * ```
+ */
+export class WalletMinting {
+  private readonly sdk: Web3Sdk;
+
+  constructor({ sdk }: { sdk: Web3Sdk }) {
+    this.sdk = sdk;
+  }
+
+  /**
+   * Creates a policy that only the wallet can mint under, until `lockAt`, and adds it to the wallet's policies.
+   * Creating a policy that the wallet already has returns the saved one.
+   *
+   * @param walletId - The wallet that owns the policy.
+   * @param options.lockAt - When the policy closes, as a date or a slot. Dates need a network with a known slot configuration.
+   * @param options.name - An optional display name.
+   * @returns The saved policy.
+   */
+  async createPolicy(
+    walletId: string,
+    { lockAt, name }: { lockAt: Date | number; name?: string },
+  ): Promise<Web3MintingPolicy> {
+    const wallet = await this.sdk.wallet.getWalletInfo(walletId);
+    const lockSlot =
+      typeof lockAt === "number" ? lockAt : this.slotAt(lockAt.getTime());
+
+    const script: NativeScript = {
+      type: "all",
+      scripts: [
+        { type: "sig", keyHash: wallet.pubKeyHash },
+        { type: "before", slot: lockSlot.toString() },
+      ],
+    };
+    const policyId = resolveNativeScriptHash(script);
+    const existing = wallet.mintingPolicies?.find(
+      (policy) => policy.policyId === policyId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const { data } = await this.sdk.transport.post(
+      `api/project-wallet/${this.sdk.projectId}/${walletId}/minting-policy`,
+      {
+        policyId,
+        name: name ?? null,
+        script,
+        scriptCbor: toNativeScript(script).toCbor(),
+        lockSlot,
+        createdAt: new Date(),
+      } satisfies Web3MintingPolicy,
+    );
+
+    return data as Web3MintingPolicy;
+  }
+
+  /**
+   * Lists the minting policies of a wallet.
+   */
+  async getPolicies(walletId: string): Promise<Web3MintingPolicy[]> {
+    const wallet = await this.sdk.wallet.getWalletInfo(walletId);
+    return wallet.mintingPolicies ?? [];
+  }
+
+  /**
+   * Mints tokens under a policy of the wallet.
+   *
+   * With `cip25` the metadata goes to the transaction metadata under label 721. With `cip68` each asset mints a
+   * reference token (label 100), kept at the wallet address with the metadata as inline datum, and its user tokens
+   * (label 222). Tokens with a `recipient` are sent there, the others stay in the wallet. Reference tokens are left
+   * out of coin selection here, in `sweep` and in payouts, so they stay with their datum.
+   *
+   * @param params.walletId - The wallet that owns the policy and pays the fee.
+   * @param params.policyId - One of the wallet's `mintingPolicies`.
+   * @param params.standard - The metadata standard (default: "cip25").
+   * @param params.assets - The tokens to mint.
+   * @param params.auditContext - Recorded with the signature in the SDK's audit log.
+   * @returns The transaction hash and the units minted.
+   *
+   * @throws {MintingPolicyLockedError} If the policy has closed.
+   * @throws {Error} If an asset name is repeated.
+   */
+  async mint({
+    walletId,
+    policyId,
+    standard = "cip25",
+    assets,
+    auditContext,
+  }: {
+    walletId: string;
+    policyId: string;
+    standard?: MintingStandard;
+    assets: MintAsset[];
+    auditContext?: AuditContext;
+  }): Promise<MintResult> {
+    const policy = await this.getOpenPolicy(walletId, policyId);
+    const signer = await this.sdk.wallet.getSigner(walletId, { auditContext });
+    const address = await signer.cardano.getChangeAddress();
+
+    const txBuilder = this.policyTxBuilder(policy);
+    const units: string[] = [];
+    const recipients = new Map<string, Asset[]>();
+    const cip25: Record<string, unknown> = {};
+
+    const names = new Set<string>();
+    for (const asset of assets) {
+      if (names.has(asset.name)) {
+        throw new Error(`Asset name ${asset.name} is repeated`);
+      }
+      names.add(asset.name);
+    }
+
+    for (const asset of assets) {
+      const quantity = asset.quantity ?? "1";
+      const recipient = asset.recipient ?? address;
+      const nameHex = stringToHex(asset.name);
+
+      if (standard === "cip68") {
+        const referenceUnit = policyId + CIP68_100(nameHex);
+        const userUnit = policyId + CIP68_222(nameHex);
+        txBuilder
+          .mint("1", policyId, CIP68_100(nameHex))
+          .mintingScript(policy.scriptCbor)
+          .mint(quantity, policyId, CIP68_222(nameHex))
+          .mintingScript(policy.scriptCbor)
+          .txOut(address, [{ unit: referenceUnit, quantity: "1" }])
+          .txOutInlineDatumValue(
+            toPlutusData(metadataToCip68(asset.metadata ?? {})).toCbor(),
+            "CBOR",
+          );
+        recipients.set(recipient, [
+          ...(recipients.get(recipient) ?? []),
+          { unit: userUnit, quantity },
+        ]);
+        units.push(referenceUnit, userUnit);
+      } else {
+        const unit = policyId + nameHex;
+        txBuilder
+          .mint(quantity, policyId, nameHex)
+          .mintingScript(policy.scriptCbor);
+        if (asset.metadata) {
+          cip25[asset.name] = asset.metadata;
+        }
+        recipients.set(recipient, [
+          ...(recipients.get(recipient) ?? []),
+          { unit, quantity },
+        ]);
+        units.push(unit);
+      }
+    }
+
+    for (const [recipient, tokens] of recipients) {
+      // tokens the wallet keeps return with the change
+      if (recipient !== address) {
+        txBuilder.txOut(recipient, tokens);
+      }
+    }
+    if (Object.keys(cip25).length > 0) {
+      txBuilder.metadataValue(721, { [policyId]: cip25, version: "1.0" });
+    }
+
+    const txHash = await this.complete(
+      txBuilder,
+      address,
+      await this.fetchUtxos(address),
+      (tx) => signer.cardano.signTx(tx),
+    );
+    return { txHash, policyId, units };
+  }
+
+  /**
+   * Burns tokens of a policy held by the wallet. Burning a CIP-68 token takes both its reference and user units.
+   * Reference tokens that are spent with the burned tokens but not burned are sent back to the wallet with their datum.
+   *
+   * @param params.walletId - The wallet that owns the policy and holds the tokens.
+   * @param params.policyId - One of the wallet's `mintingPolicies`.
+   * @param params.assets - The units and quantities to burn, all under `policyId`.
+   * @param params.auditContext - Recorded with the signature in the SDK's audit log.
+   * @returns The transaction hash.
+   *
+   * @throws {MintingPolicyLockedError} If the policy has closed.
+   * @throws {Error} If a unit is not under the policy or the wallet holds too few of it.
+   */
+  async burn({
+    walletId,
+    policyId,
+    assets,
+    auditContext,
+  }: {
+    walletId: string;
+    policyId: string;
+    assets: Asset[];
+    auditContext?: AuditContext;
+  }): Promise<{ txHash: string }> {
+    const policy = await this.getOpenPolicy(walletId, policyId);
+    const signer = await this.sdk.wallet.getSigner(walletId, { auditContext });
+    const address = await signer.cardano.getChangeAddress();
+    const utxos = await this.fetchUtxos(address);
+
+    const txBuilder = this.policyTxBuilder(policy);
+    const spent = new Set<UTxO>();
+    for (const { unit, quantity } of assets) {
+      if (!unit.startsWith(policyId) || unit === policyId) {
+        throw new Error(`${unit} is not a token of policy ${policyId}`);
+      }
+
+      // the burned tokens must be inputs, coin selection only covers the outputs
+      let held = 0n;
+      for (const utxo of utxos) {
+        const amount = utxo.output.amount.find((a) => a.unit === unit);
+        if (amount === undefined) continue;
+        held += BigInt(amount.quantity);
+        spent.add(utxo);
+      }
+      if (held < BigInt(quantity)) {
+        throw new Error(
+          `Wallet ${walletId} holds ${held} of ${unit}, cannot burn ${quantity}`,
+        );
+      }
+
+      txBuilder
+        .mint(`-${quantity}`, policyId, unit.slice(policyId.length))
+        .mintingScript(policy.scriptCbor);
+    }
+    const burned = new Set(assets.map((asset) => asset.unit));
+    for (const utxo of spent) {
+      txBuilder.txIn(
+        utxo.input.txHash,
+        utxo.input.outputIndex,
+        utxo.output.amount,
+        address,
+        0,
+      );
+
+      // a reference token spent with the burned tokens goes back to the wallet with its datum, not to the change
+      const references = utxo.output.amount.filter(
+        (asset) => isCip68ReferenceUnit(asset.unit) && !burned.has(asset.unit),
+      );
+      if (references.length === 0) continue;
+      if (utxo.output.plutusData === undefined) {
+        throw new Error(
+          `UTxO ${utxo.input.txHash}#${utxo.input.outputIndex} holds a CIP-68 reference token without inline datum, cannot burn from it`,
+        );
+      }
+      txBuilder
+        .txOut(address, references)
+        .txOutInlineDatumValue(utxo.output.plutusData, "CBOR");
+    }
+
+    const txHash = await this.complete(
+      txBuilder,
+      address,
+      utxos.filter((utxo) => !spent.has(utxo)),
+      (tx) => signer.cardano.signTx(tx),
+    );
+    return { txHash };
+  }
+
+  private async getOpenPolicy(
+    walletId: string,
+    policyId: string,
+  ): Promise<Web3MintingPolicy> {
+    const policy = (await this.getPolicies(walletId)).find(
+      (policy) => policy.policyId === policyId,
+    );
+    if (policy === undefined) {
+      throw new Error(`Wallet ${walletId} has no minting policy ${policyId}`);
+    }
+
+    const network = this.sdk.networkProfile.cardano.network;
+    // the ledger rejects late transactions anyway, this only fails early where the slot is known
+    if (isNetwork(network) && this.slotAt(Date.now()) >= policy.lockSlot) {
+      throw new MintingPolicyLockedError(policyId, policy.lockSlot);
+    }
+    return policy;
+  }
+
+  private policyTxBuilder(policy: Web3MintingPolicy) {
+    return new MeshTxBuilder().invalidHereafter(policy.lockSlot);
+  }
+
+  private async fetchUtxos(address: string): Promise<UTxO[]> {
+    if (this.sdk.providerFetcher === undefined) {
+      throw new Error("Fetcher not found");
+    }
+    return this.sdk.providerFetcher.fetchAddressUTxOs(address);
+  }
+
+  private async complete(
+    txBuilder: MeshTxBuilder,
+    address: string,
+    utxos: UTxO[],
+    sign: (tx: string) => Promise<string>,
+  ): Promise<string> {
+    if (this.sdk.providerSubmitter === undefined) {
+      throw new Error("Submitter not found");
+    }
+
+    const unsignedTx = await txBuilder
+      .changeAddress(address)
+      .selectUtxosFrom(utxos.filter((utxo) => !holdsCip68ReferenceToken(utxo)))
+      .complete();
+    return this.sdk.providerSubmitter.submitTx(await sign(unsignedTx));
+  }
+
+  private slotAt(milliseconds: number): number {
+    const network = this.sdk.networkProfile.cardano.network;
+    if (!isNetwork(network)) {
+      throw new Error(
+        `The slot of a date is unknown on ${network}, lock the policy at a slot`,
+      );
+    }
+    return Number(resolveSlotNo(network, milliseconds));
+  }
+}
@@ -0,0 +1,229 @@
+import { DataSignature } from "@meshsdk/common";
+import { MeshWallet } from "@meshsdk/wallet";
+import {
+  EmbeddedWallet,
+  SignMessageResult,
+  SignPsbtParams,
+  SignPsbtResult,
+} from "@meshsdk/bitcoin";
+import { SparkWallet } from "@buildonspark/spark-sdk";
+import { resolveTxHash } from "@meshsdk/core-cst";
+import { Web3ProjectWallet } from "../../types";
+
+/**
+ * Decrypts the wallet key, builds a chain wallet from it for a single call and drops the key afterwards.
+ */
+export type WalletSession<W> = <T>(
+  use: (wallet: W) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Called after every signature and before it is returned, with the hash of a signed Cardano transaction.
+ */
+export type WalletSignatureAudit = (txHash?: string) => Promise<unknown>;
+
+/**
+ * Runs `sign` for an unsigned Cardano transaction if it may be signed, throws otherwise.
+ */
+export type WalletSignatureGuard = <T>(
+  unsignedTx: string,
+  sign: () => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Cardano half of a `DeveloperWalletSigner`: signs with the wallet key, without handing it out.
+ */
+export class CardanoWalletSigner {
+  private readonly address: string;
+  private readonly session: WalletSession<MeshWallet>;
+  private readonly guard: WalletSignatureGuard | undefined;
+  private readonly audit: WalletSignatureAudit | undefined;
+  private readonly stakeSession: WalletSession<MeshWallet> | undefined;
+
+  /**
+   * @param params.guard - Wraps every signature, checks the transaction before the key is decrypted and throws to
+   * refuse signing.
+   * @param params.stakeSession - Opens the wallet on its stake key, for `signStakeTx`.
+   */
+  constructor({
+    address,
+    session,
+    guard,
+    audit,
+    stakeSession,
+  }: {
+    address: string;
+    session: WalletSession<MeshWallet>;
+    guard?: WalletSignatureGuard;
+    audit?: WalletSignatureAudit;
+    stakeSession?: WalletSession<MeshWallet>;
+  }) {
+    this.address = address;
+    this.session = session;
+    this.guard = guard;
+    this.audit = audit;
+    this.stakeSession = stakeSession;
+  }
+
+  async getChangeAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTx(unsignedTx: string, partialSign = false): Promise<string> {
+    const sign = () =>
+      this.session((wallet) => wallet.signTx(unsignedTx, partialSign));
+    const signedTx = this.guard
+      ? await this.guard(unsignedTx, sign)
+      : await sign();
+    await this.audit?.(resolveTxHash(unsignedTx));
+    return signedTx;
+  }
+
+  /**
+   * Signs with the payment key and the stake key, as delegations and reward withdrawals need both.
+   *
+   * @throws {Error} If the wallet has no stake key.
+   */
+  async signStakeTx(unsignedTx: string, partialSign = false): Promise<string> {
+    if (this.stakeSession === undefined) {
+      throw new Error("Wallet has no stake key");
+    }
+
+    const stakeSession = this.stakeSession;
+    const sign = async () => {
+      const paymentSigned = await this.session((wallet) =>
+        wallet.signTx(unsignedTx, partialSign),
+      );
+      return stakeSession((wallet) => wallet.signTx(paymentSigned, true));
+    };
+    const signedTx = this.guard
+      ? await this.guard(unsignedTx, sign)
+      : await sign();
+    await this.audit?.(resolveTxHash(unsignedTx));
+    return signedTx;
+  }
+
+  /**
+   * Signs a CIP-8 message.
+   *
+   * @param payload - The hex payload to sign.
+   * @param address - The signing address, defaults to the change address.
+   */
+  async signData(
+    payload: string,
+    address = this.address,
+  ): Promise<DataSignature> {
+    const signature = await this.session((wallet) =>
+      wallet.signData(payload, address),
+    );
+    await this.audit?.();
+    return signature;
+  }
+}
+
+/**
+ * Bitcoin half of a `DeveloperWalletSigner`, on the network of the SDK's network profile.
+ */
+export class BitcoinWalletSigner {
+  private readonly address: string;
+  private readonly publicKey: string;
+  private readonly session: WalletSession<EmbeddedWallet>;
+  private readonly audit: WalletSignatureAudit | undefined;
+
+  constructor({
+    address,
+    publicKey,
+    session,
+    audit,
+  }: {
+    address: string;
+    publicKey: string;
+    session: WalletSession<EmbeddedWallet>;
+    audit?: WalletSignatureAudit;
+  }) {
+    this.address = address;
+    this.publicKey = publicKey;
+    this.session = session;
+    this.audit = audit;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.publicKey;
+  }
+
+  async signMessage(
+    message: string,
+    protocol?: "ECDSA" | "BIP322",
+  ): Promise<SignMessageResult> {
+    const result = await this.session((wallet) =>
+      wallet.signMessage({ address: this.address, message, protocol }),
+    );
+    await this.audit?.();
+    return result;
+  }
+
+  async signPsbt(params: SignPsbtParams): Promise<SignPsbtResult> {
+    const result = await this.session((wallet) => wallet.signPsbt(params));
+    await this.audit?.();
+    return result;
+  }
+}
+
+/**
+ * Spark half of a `DeveloperWalletSigner`. Every call connects to the Spark operators of the SDK's network.
+ */
+export class SparkWalletSigner {
+  private readonly address: string;
+  private readonly identityPublicKey: string;
+  private readonly session: WalletSession<SparkWallet>;
+  private readonly audit: WalletSignatureAudit | undefined;
+
+  constructor({
+    address,
+    identityPublicKey,
+    session,
+    audit,
+  }: {
+    address: string;
+    identityPublicKey: string;
+    session: WalletSession<SparkWallet>;
+    audit?: WalletSignatureAudit;
+  }) {
+    this.address = address;
+    this.identityPublicKey = identityPublicKey;
+    this.session = session;
+    this.audit = audit;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async getIdentityPublicKey(): Promise<string> {
+    return this.identityPublicKey;
+  }
+
+  async signMessage(message: string, compact?: boolean): Promise<string> {
+    const signature = await this.session((wallet) =>
+      wallet.signMessageWithIdentityKey(message, compact),
+    );
+    await this.audit?.();
+    return signature;
+  }
+}
+
+/**
+ * A sign-only handle on a developer wallet. Addresses come from the stored public keys, and the key is
+ * decrypted for each signature only. Chains the wallet has no keys for are left out.
+ */
+export type DeveloperWalletSigner = {
+  /** The wallet record, its `key` stays encrypted. */
+  info: Web3ProjectWallet;
+  cardano: CardanoWalletSigner;
+  bitcoin?: BitcoinWalletSigner;
+  spark?: SparkWalletSigner;
+};
@@ -0,0 +1,164 @@
+import { AccountInfo, UTxO } from "@meshsdk/common";
+import { deserializeTx, resolveTxHash } from "@meshsdk/core-cst";
+import {
+  getProfileCardanoAddress,
+  getProfileCardanoRewardAddress,
+} from "../network";
+import {
+  mockFetcher,
+  mockSdk,
+  mockSubmitter,
+} from "../transport/mock-fixtures";
+
+const POOL_ID = "pool1pu5jlj4q9w9jlxeu370a3c9myx47md5j5m2str0naunn2q3lkdy";
+
+describe("WalletStaking", () => {
+  async function setup() {
+    const utxos: Record<string, UTxO[]> = {};
+    const accounts: Record<string, AccountInfo> = {};
+    const submitted: string[] = [];
+    let accountError: unknown;
+    const { sdk } = await mockSdk({
+      fetcher: mockFetcher({
+        fetchAddressUTxOs: async (address: string) => utxos[address] ?? [],
+        fetchAccountInfo: async (address: string) => {
+          if (accountError !== undefined) throw accountError;
+          if (accounts[address] === undefined) {
+            // the serialized response Mesh providers reject with
+            throw JSON.stringify({ data: {}, headers: {}, status: 404 });
+          }
+          return accounts[address];
+        },
+      }),
+      submitter: mockSubmitter({
+        submitTx: async (tx: string) => {
+          submitted.push(tx);
+          return resolveTxHash(tx);
+        },
+      }),
+    });
+
+    const createWallet = async () => {
+      const wallet = await sdk.wallet.createWallet({ tags: ["treasury"] });
+      const address = getProfileCardanoAddress(
+        sdk.networkProfile,
+        wallet.pubKeyHash,
+        wallet.stakeCredentialHash,
+      );
+      utxos[address] = [
+        {
+          input: { txHash: "00".repeat(32), outputIndex: 0 },
+          output: {
+            address,
+            amount: [{ unit: "lovelace", quantity: "100000000" }],
+          },
+        },
+      ];
+      const rewardAddress = getProfileCardanoRewardAddress(
+        sdk.networkProfile,
+        wallet.stakeCredentialHash,
+      );
+      return { wallet, rewardAddress };
+    };
+
+    const failAccounts = (error: unknown) => {
+      accountError = error;
+    };
+
+    return { sdk, accounts, submitted, createWallet, failAccounts };
+  }
+
+  it("registers and delegates every wallet under a tag", async () => {
+    const { sdk, accounts, submitted, createWallet } = await setup();
+    const fresh = await createWallet();
+    const delegated = await createWallet();
+    accounts[delegated.rewardAddress] = {
+      active: true,
+      poolId: POOL_ID,
+      balance: "100000000",
+      rewards: "0",
+      withdrawals: "0",
+    };
+
+    const report = await sdk.wallet.staking.delegate({
+      tag: "treasury",
+      poolId: POOL_ID,
+    });
+    expect(report.transactions.map((tx) => tx.walletId)).toEqual([
+      fresh.wallet.id,
+    ]);
+    expect(report.skipped).toEqual([delegated.wallet.id]);
+    expect(report.failed).toEqual([]);
+
+    const tx = deserializeTx(submitted[0]!).toCore();
+    expect(tx.body.certificates!.map((cert) => cert.__typename)).toEqual([
+      "StakeRegistrationCertificate",
+      "StakeDelegationCertificate",
+    ]);
+    // the payment key pays, the stake key authorizes the delegation
+    expect(tx.witness.signatures.size).toBe(2);
+
+    const [status] = await sdk.wallet.staking.getStatus({
+      walletId: fresh.wallet.id,
+    });
+    expect(status).toEqual({
+      walletId: fresh.wallet.id,
+      rewardAddress: fresh.rewardAddress,
+      registered: false,
+      poolId: null,
+      rewards: "0",
+    });
+  });
+
+  it("withdraws rewards and delegates votes", async () => {
+    const { sdk, accounts, submitted, createWallet } = await setup();
+    const { wallet, rewardAddress } = await createWallet();
+    accounts[rewardAddress] = {
+      active: true,
+      poolId: POOL_ID,
+      balance: "105000000",
+      rewards: "5000000",
+      withdrawals: "0",
+    };
+
+    await sdk.wallet.staking.delegateVote({
+      walletId: wallet.id,
+      drep: { alwaysAbstain: null },
+    });
+    expect(
+      deserializeTx(submitted[0]!)
+        .toCore()
+        .body.certificates!.map((cert) => cert.__typename),
+    ).toEqual(["VoteDelegationCertificate"]);
+
+    const report = await sdk.wallet.staking.withdrawRewards({
+      walletId: wallet.id,
+    });
+    expect(report.transactions).toHaveLength(1);
+    expect(deserializeTx(submitted[1]!).toCore().body.withdrawals).toEqual([
+      { stakeAddress: rewardAddress, quantity: 5000000n },
+    ]);
+
+    accounts[rewardAddress]!.rewards = "0";
+    expect(
+      await sdk.wallet.staking.withdrawRewards({ walletId: wallet.id }),
+    ).toEqual({ transactions: [], skipped: [wallet.id], failed: [] });
+  });
+
+  it("reports provider failures instead of treating wallets as unregistered", async () => {
+    const { sdk, submitted, createWallet, failAccounts } = await setup();
+    const { wallet } = await createWallet();
+    failAccounts(JSON.stringify({ data: {}, headers: {}, status: 500 }));
+
+    await expect(
+      sdk.wallet.staking.getStatus({ walletId: wallet.id }),
+    ).rejects.toContain("500");
+
+    const report = await sdk.wallet.staking.register({ walletId: wallet.id });
+    expect(report.transactions).toEqual([]);
+    expect(report.failed.map((failure) => failure.walletId)).toEqual([
+      wallet.id,
+    ]);
+    expect(submitted).toEqual([]);
+  });
+});
@@ -0,0 +1,271 @@
+import { Web3Sdk } from "..";
+import { AccountInfo, DRep } from "@meshsdk/common";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { Web3ProjectWallet } from "../../types";
+import { AuditContext } from "../audit-log";
+import {
+  getProfileCardanoAddress,
+  getProfileCardanoRewardAddress,
+} from "../network";
+import { mapConcurrent } from "./treasury";
+
+const DEFAULT_STAKING_CONCURRENCY = 5;
+
+/** One wallet by ID, or every active wallet with a tag. */
+export type StakingTarget = { walletId: string } | { tag: string };
+
+export type StakingOptions = {
+  /** The maximum number of wallets processed at once (default: 5). */
+  concurrency?: number;
+  /** Recorded with every signature in the SDK's audit log. */
+  auditContext?: AuditContext;
+};
+
+export type WalletStakingStatus = {
+  walletId: string;
+  rewardAddress: string;
+  registered: boolean;
+  /** The pool the stake is delegated to, `null` when it is not delegated. */
+  poolId: string | null;
+  /** Rewards available to withdraw, in lovelace. */
+  rewards: string;
+};
+
+export type StakingReport = {
+  transactions: { walletId: string; txHash: string }[];
+  /** Wallets with nothing to do, e.g. already delegated to the pool or without rewards. */
+  skipped: string[];
+  failed: { walletId: string; error: unknown }[];
+};
+
+/**
+ * Mesh providers reject with the serialized HTTP response, `{ data, headers, status }`, other fetchers with an
+ * error carrying the status.
+ */
+function isNotFoundError(error: unknown): boolean {
+  let response = error;
+  if (typeof error === "string") {
+    try {
+      response = JSON.parse(error);
+    } catch {
+      return false;
+    }
+  }
+  return (
+    typeof response === "object" &&
+    response !== null &&
+    (response as { status?: unknown }).status === 404
+  );
+}
+
+/**
+ * Adds the certificates or withdrawals of one wallet to its transaction, returns false when there is nothing to do.
+ */
+type StakingStep = (
+  txBuilder: MeshTxBuilder,
+  status: WalletStakingStatus,
+) => boolean;
+
+/**
+ * The `WalletStaking` class delegates the stake of developer wallets and withdraws their rewards.
+ *
+ * Every operation takes one wallet or a tag, and builds, signs and submits one transaction per wallet, paid from
+ * the wallet itself. Stake keys are registered on first use, the key deposit is taken from the wallet with the fee.
+ * Transactions are signed with the payment and the stake key through `getSigner`, so spending policies apply,
+ * including `forbiddenCertificates`.
+ *
+ * ```ts
+ * await sdk.wallet.staking.delegate({ tag: "treasury", poolId: "pool1...", drep: { alwaysAbstain: null } });
+ * await sdk.wallet.staking.withdrawRewards({ tag: "treasury" });
+ * ```
+ */
+export class WalletStaking {
+  private readonly sdk: Web3Sdk;
+
+  constructor({ sdk }: { sdk: Web3Sdk }) {
+    this.sdk = sdk;
+  }
+
+  /**
+   * Looks up the stake registration, delegation and rewards of the wallets.
+   * A reward address the fetcher answers 404 for is reported as not registered, other fetcher errors are thrown.
+   */
+  async getStatus(
+    target: StakingTarget,
+    { concurrency = DEFAULT_STAKING_CONCURRENCY }: StakingOptions = {},
+  ): Promise<WalletStakingStatus[]> {
+    const wallets = await this.resolveTarget(target);
+    return mapConcurrent(wallets, concurrency, (wallet) =>
+      this.fetchStatus(wallet),
+    );
+  }
+
+  /**
+   * Registers the stake keys of the wallets that are not registered yet, paying the key deposit.
+   */
+  async register(
+    target: StakingTarget,
+    options: StakingOptions = {},
+  ): Promise<StakingReport> {
+    return this.run(target, options, (txBuilder, status) => {
+      if (status.registered) return false;
+      txBuilder.registerStakeCertificate(status.rewardAddress);
+      return true;
+    });
+  }
+
+  /**
+   * Delegates the stake of the wallets to a pool, and their votes to a DRep when `drep` is set.
+   * Wallets already delegated to the pool are skipped unless a DRep is given.
+   *
+   * @param params.poolId - The pool ID, bech32 or hex.
+   * @param params.drep - A DRep ID, or `alwaysAbstain` / `alwaysNoConfidence`.
+   */
+  async delegate({
+    poolId,
+    drep,
+    ...options
+  }: StakingTarget &
+    StakingOptions & { poolId: string; drep?: DRep }): Promise<StakingReport> {
+    return this.run(options, options, (txBuilder, status) => {
+      if (status.poolId === poolId && drep === undefined) return false;
+      if (!status.registered) {
+        txBuilder.registerStakeCertificate(status.rewardAddress);
+      }
+      txBuilder.delegateStakeCertificate(status.rewardAddress, poolId);
+      if (drep !== undefined) {
+        txBuilder.voteDelegationCertificate(drep, status.rewardAddress);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Delegates the votes of the wallets to a DRep. Since the Conway era, rewards can only be withdrawn
+   * from reward addresses that delegate their votes.
+   *
+   * @param params.drep - A DRep ID, or `alwaysAbstain` / `alwaysNoConfidence`.
+   */
+  async delegateVote({
+    drep,
+    ...options
+  }: StakingTarget & StakingOptions & { drep: DRep }): Promise<StakingReport> {
+    return this.run(options, options, (txBuilder, status) => {
+      if (!status.registered) {
+        txBuilder.registerStakeCertificate(status.rewardAddress);
+      }
+      txBuilder.voteDelegationCertificate(drep, status.rewardAddress);
+      return true;
+    });
+  }
+
+  /**
+   * Withdraws all available rewards of the wallets to their own addresses. Wallets without rewards are skipped.
+   */
+  async withdrawRewards(
+    target: StakingTarget,
+    options: StakingOptions = {},
+  ): Promise<StakingReport> {
+    return this.run(target, options, (txBuilder, status) => {
+      if (BigInt(status.rewards) === 0n) return false;
+      txBuilder.withdrawal(status.rewardAddress, status.rewards);
+      return true;
+    });
+  }
+
+  private async run(
+    target: StakingTarget,
+    { concurrency = DEFAULT_STAKING_CONCURRENCY, auditContext }: StakingOptions,
+    step: StakingStep,
+  ): Promise<StakingReport> {
+    const fetcher = this.sdk.providerFetcher;
+    const submitter = this.sdk.providerSubmitter;
+    if (fetcher === undefined || submitter === undefined) {
+      throw new Error("Fetcher and submitter are required for staking");
+    }
+
+    const report: StakingReport = { transactions: [], skipped: [], failed: [] };
+    const wallets = await this.resolveTarget(target);
+
+    // one failing wallet must not stop the others, the error is reported with the wallet
+    await mapConcurrent(wallets, concurrency, async (wallet) => {
+      try {
+        if (!wallet.stakeCredentialHash) {
+          throw new Error(`Wallet ${wallet.id} has no stake key`);
+        }
+
+        const status = await this.fetchStatus(wallet);
+        const txBuilder = new MeshTxBuilder();
+        if (!step(txBuilder, status)) {
+          report.skipped.push(wallet.id);
+          return;
+        }
+
+        const signer = await this.sdk.wallet.getSigner(wallet.id, {
+          auditContext,
+        });
+        const address = getProfileCardanoAddress(
+          this.sdk.networkProfile,
+          wallet.pubKeyHash,
+          wallet.stakeCredentialHash,
+        );
+        const unsignedTx = await txBuilder
+          .changeAddress(address)
+          .selectUtxosFrom(await fetcher.fetchAddressUTxOs(address))
+          .complete();
+        const txHash = await submitter.submitTx(
+          await signer.cardano.signStakeTx(unsignedTx),
+        );
+        report.transactions.push({ walletId: wallet.id, txHash });
+      } catch (error) {
+        report.failed.push({ walletId: wallet.id, error });
+      }
+    });
+
+    return report;
+  }
+
+  private async resolveTarget(
+    target: StakingTarget,
+  ): Promise<Web3ProjectWallet[]> {
+    if ("walletId" in target) {
+      return [await this.sdk.wallet.getWalletInfo(target.walletId)];
+    }
+
+    const wallets: Web3ProjectWallet[] = [];
+    for await (const wallet of this.sdk.wallet.iterateWallets({
+      tags: [target.tag],
+    })) {
+      wallets.push(wallet);
+    }
+    return wallets;
+  }
+
+  private async fetchStatus(
+    wallet: Web3ProjectWallet,
+  ): Promise<WalletStakingStatus> {
+    if (this.sdk.providerFetcher === undefined) {
+      throw new Error("Fetcher not found");
+    }
+
+    const rewardAddress = getProfileCardanoRewardAddress(
+      this.sdk.networkProfile,
+      wallet.stakeCredentialHash,
+    );
+    // providers answer 404 for reward addresses never seen on chain
+    const account: AccountInfo | undefined = await this.sdk.providerFetcher
+      .fetchAccountInfo(rewardAddress)
+      .catch((error: unknown) => {
+        if (isNotFoundError(error)) return undefined;
+        throw error;
+      });
+
+    return {
+      walletId: wallet.id,
+      rewardAddress,
+      registered: account?.active ?? false,
+      poolId: account?.poolId || null,
+      rewards: account?.rewards ?? "0",
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import { Asset, UTxO } from "@meshsdk/common";
+import { deserializeTx, resolveTxHash } from "@meshsdk/core-cst";
+import { MeshTxBuilder } from "@meshsdk/transaction";
+import { Web3ProjectWallet } from "../../types";
+import { sumUtxos } from "./treasury";
+
+export const DEFAULT_SWEEP_MAX_TX_SIZE = 16384;
+export const DEFAULT_SWEEP_MAX_WALLETS_PER_TX = 20;
+
+// a vkey witness: 32-byte key and 64-byte signature with their CBOR headers
+const VKEY_WITNESS_SIZE = 101;
+
+export type SweepOptions = {
+  /** The address that receives the funds. */
+  destination: string;
+  /** The wallets to sweep. Without it, the wallets matching `tags` are swept. */
+  walletIds?: string[];
+  /** Sweep the wallets with any of these tags. */
+  tags?: string[];
+  /** Build the transactions and report their fees without signing or submitting (default: false). */
+  dryRun?: boolean;
+  /** The size limit of a consolidation transaction, in bytes (default: 16384). */
+  maxTxSize?: number;
+  /** The maximum number of source wallets per transaction (default: 20). */
+  maxWalletsPerTx?: number;
+  /** The maximum number of address lookups in flight (default: 5). */
+  concurrency?: number;
+};
+
+export type SweepBatch = {
+  txHash: string;
+  walletIds: string[];
+  inputCount: number;
+  /** The estimated size of the signed transaction, in bytes. */
+  size: number;
+  fee: string;
+  /** What the destination receives, the inputs less the fee. */
+  swept: Asset[];
+  /** False in a dry run. */
+  submitted: boolean;
+};
+
+export type SweepReport = {
+  destination: string;
+  dryRun: boolean;
+  batches: SweepBatch[];
+  /** The sum over all batches. */
+  swept: Asset[];
+  fees: string;
+  /** Wallets without UTxOs. */
+  empty: string[];
+  failed: { walletId: string; error: unknown }[];
+};
+
+export type SweepSource = {
+  wallet: Web3ProjectWallet;
+  address: string;
+  utxos: UTxO[];
+};
+
+export type SweepTx = {
+  tx: string;
+  txHash: string;
+  size: number;
+  fee: bigint;
+};
+
+/**
+ * Builds one transaction that spends every UTxO of the sources to the destination.
+ * The size includes one witness per source wallet.
+ */
+export async function buildSweepTx(
+  sources: SweepSource[],
+  destination: string,
+): Promise<SweepTx> {
+  const txBuilder = new MeshTxBuilder();
+  for (const { address, utxos } of sources) {
+    for (const utxo of utxos) {
+      txBuilder.txIn(
+        utxo.input.txHash,
+        utxo.input.outputIndex,
+        utxo.output.amount,
+        address,
+        0,
+      );
+    }
+  }
+  const tx = await txBuilder.changeAddress(destination).complete();
+
+  return {
+    tx,
+    txHash: resolveTxHash(tx),
+    size: estimateSignedTxSize(tx, sources.length),
+    fee: deserializeTx(tx).body().fee(),
+  };
+}
+
+/**
+ * The size of a transaction once signed by `signers` key witnesses, in bytes.
+ */
+export function estimateSignedTxSize(unsignedTx: string, signers: number) {
+  return unsignedTx.length / 2 + signers * VKEY_WITNESS_SIZE;
+}
+
+/**
+ * The inputs of the sources less the fee, i.e. what the destination receives.
+ */
+export function sweptAssets(sources: SweepSource[], fee: bigint): Asset[] {
+  return sumUtxos(sources.flatMap((source) => source.utxos)).map((asset) =>
+    asset.unit === "lovelace"
+      ? {
+          unit: "lovelace",
+          quantity: (BigInt(asset.quantity) - fee).toString(),
+        }
+      : asset,
+  );
+}
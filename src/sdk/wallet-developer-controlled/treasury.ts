@@ -0,0 +1,93 @@
+import { Asset, UTxO } from "@meshsdk/common";
+
+/**
+ * The on-chain holdings of one developer wallet, at its Cardano address on the SDK's network profile.
+ */
+export type WalletHoldings = {
+  walletId: string;
+  address: string;
+  tags: string[];
+  /** Every asset at the address, `lovelace` first. */
+  assets: Asset[];
+  utxoCount: number;
+};
+
+/**
+ * Holdings across developer wallets. Wallets with several tags count towards each of them, the total counts every wallet once.
+ */
+export type TreasuryBalances = {
+  wallets: WalletHoldings[];
+  tags: Record<string, Asset[]>;
+  total: Asset[];
+};
+
+/**
+ * Sums asset lists by unit, `lovelace` first.
+ */
+export function sumAssets(assets: Asset[][]): Asset[] {
+  const totals = new Map<string, bigint>([["lovelace", 0n]]);
+  for (const list of assets) {
+    for (const { unit, quantity } of list) {
+      totals.set(unit, (totals.get(unit) ?? 0n) + BigInt(quantity));
+    }
+  }
+
+  return [...totals].map(([unit, quantity]) => ({
+    unit,
+    quantity: quantity.toString(),
+  }));
+}
+
+export function sumUtxos(utxos: UTxO[]): Asset[] {
+  return sumAssets(utxos.map((utxo) => utxo.output.amount));
+}
+
+export function aggregateHoldings(wallets: WalletHoldings[]): TreasuryBalances {
+  const byTag = new Map<string, Asset[][]>();
+  for (const wallet of wallets) {
+    for (const tag of wallet.tags) {
+      byTag.set(tag, [...(byTag.get(tag) ?? []), wallet.assets]);
+    }
+  }
+
+  return {
+    wallets,
+    tags: Object.fromEntries(
+      [...byTag].map(([tag, assets]) => [tag, sumAssets(assets)]),
+    ),
+    total: sumAssets(wallets.map((wallet) => wallet.assets)),
+  };
+}
+
+/**
+ * Maps items with at most `concurrency` calls in flight, keeping the order of `items`. Rejects with the first error.
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const i = next++;
+      try {
+        results[i] = await fn(items[i]!);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from(
+      { length: Math.min(Math.max(concurrency, 1), items.length) },
+      worker,
+    ),
+  );
+  return results;
+}
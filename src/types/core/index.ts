@@ -1,4 +1,4 @@
-import { UTxO } from "@meshsdk/common";
+import { NativeScript, UTxO } from "@meshsdk/common";
 
 export type Web3Project = {
   id: string;
@@ -15,8 +15,36 @@ export type Web3Project = {
   branding: Web3ProjectBranding;
   publicKey: string | null;
   apiKey: string;
+  /**
+   * Refuses to decrypt wallet keys and the master seed for export, so wallets can only be used through signers.
+   * Enforced by the SDK only: the backend serves encrypted keys to anyone with the API key, and whoever holds the
+   * project private key can decrypt them. It guards against accidental export, not against the key holder.
+   */
+  disableKeyExport?: boolean;
 };
 
+/** Fields of `Web3Project` that must never reach client-facing code or logs. */
+export type Web3ProjectSecretField =
+  | "apiKey"
+  | "discordOauthSecret"
+  | "twitterOauthSecret"
+  | "googleOauthSecret";
+
+/** The project as seen by client-facing code: branding, whitelisted URLs, OAuth client IDs and public key. */
+export type Web3ProjectPublic = Pick<
+  Web3Project,
+  | "id"
+  | "name"
+  | "isActive"
+  | "whitelistedUrls"
+  | "branding"
+  | "publicKey"
+  | "discordOauthClient"
+  | "twitterOauthClient"
+  | "googleOauthClient"
+  | "disableKeyExport"
+>;
+
 export type Web3ProjectBranding = {
   name?: string;
   color?: string;
@@ -27,13 +55,134 @@ export type Web3ProjectBranding = {
   appleEnabled?: boolean;
 };
 
+/** Login providers that can be toggled in the project branding. */
+export type Web3ProjectAuthProvider =
+  | "discord"
+  | "twitter"
+  | "google"
+  | "apple";
+
+/** Login providers that need OAuth client credentials configured on the project. */
+export type Web3ProjectOAuthProvider = "discord" | "twitter" | "google";
+
+/** Fields of `Web3Project` that can be changed through `api/project/:id`. */
+export type Web3ProjectUpdate = Partial<
+  Pick<
+    Web3Project,
+    | "branding"
+    | "whitelistedUrls"
+    | "discordOauthClient"
+    | "discordOauthSecret"
+    | "twitterOauthClient"
+    | "twitterOauthSecret"
+    | "googleOauthClient"
+    | "googleOauthSecret"
+    | "disableKeyExport"
+  >
+>;
+
+/** Billable features, each consumes credits per operation. */
+export type Web3UsageFeature = "wallet" | "sponsorship";
+
+export type Web3ProjectCredits = {
+  credits: number;
+  /** Credits charged per operation of each feature, features that are free are left out. */
+  costs: Partial<Record<Web3UsageFeature, number>>;
+};
+
+export type Web3ProjectUsage = {
+  id: string;
+  feature: Web3UsageFeature;
+  credits: number;
+  /** The wallet ID or transaction hash the credits were charged for. */
+  reference: string | null;
+  createdAt: Date;
+};
+
 export type Web3ProjectWallet = {
   id: string;
+  /** The wallet key encrypted with the project public key, empty for wallets derived from the project master seed. */
   key: string;
+  /** How `key` is encoded, wallets without it hold a mnemonic. */
+  keyType?: Web3ProjectWalletKeyType;
+  /** The account index under the project master seed, set on derived wallets. */
+  derivationIndex?: number;
   tags: string[];
   projectId: string;
   pubKeyHash: string;
   stakeCredentialHash: string;
+  /** Bitcoin public keys, `null` for wallets created without Bitcoin. */
+  bitcoinMainnetPubKeyHash: string | null;
+  bitcoinTestnetPubKeyHash: string | null;
+  /** Spark identity public keys and static deposit addresses, `null` for wallets created without Spark. */
+  sparkMainnetPubKeyHash: string | null;
+  sparkRegtestPubKeyHash: string | null;
+  sparkMainnetStaticDepositAddress: string | null;
+  sparkRegtestStaticDepositAddress: string | null;
+  name: string | null;
+  metadata: Web3ProjectWalletMetadata;
+  /** Archived wallets are left out of wallet lists, `null` while the wallet is active. */
+  archivedAt: Date | null;
+  /** Native-script minting policies owned by the wallet, see `WalletMinting.createPolicy`. */
+  mintingPolicies?: Web3MintingPolicy[];
+};
+
+/**
+ * A native-script minting policy that requires the signature of a project wallet and closes at `lockSlot`,
+ * after which no token of the policy can be minted or burned.
+ */
+export type Web3MintingPolicy = {
+  policyId: string;
+  name: string | null;
+  /** The native script as JSON, the policy ID is its hash. */
+  script: NativeScript;
+  /** The CBOR hex of the native script, attached to mint and burn transactions. */
+  scriptCbor: string;
+  /** The first slot at which the policy is closed. */
+  lockSlot: number;
+  createdAt: Date;
+};
+
+export type Web3ProjectWalletKeyType = "mnemonic" | "root" | "cli" | "derived";
+
+export type Web3ProjectWalletMetadata = Record<
+  string,
+  string | number | boolean
+>;
+
+/** Fields of `Web3ProjectWallet` that can be changed through `api/project-wallet/:projectId/:walletId`. */
+export type Web3ProjectWalletUpdate = Partial<
+  Pick<Web3ProjectWallet, "tags" | "name" | "metadata" | "archivedAt">
+>;
+
+/** Tags added to and removed from a wallet in one step through `api/project-wallet/:projectId/:walletId/tags`. */
+export type Web3ProjectWalletTagsUpdate = {
+  add?: string[];
+  remove?: string[];
+};
+
+/** Filters for `api/project-wallet/:projectId/page`, every filter that is set must match. */
+export type Web3ProjectWalletFilter = {
+  tags?: string[];
+  /** `all` matches wallets with every tag (AND), `any` wallets with at least one (OR). Defaults to `all`. */
+  tagMode?: "all" | "any";
+  pubKeyHash?: string;
+  stakeCredentialHash?: string;
+  includeArchived?: boolean;
+};
+
+export type Web3ProjectWalletPage = {
+  wallets: Web3ProjectWallet[];
+  /** Pass as `cursor` to fetch the next page, `null` on the last page. */
+  nextCursor: string | null;
+};
+
+/** Chains a developer-controlled wallet holds keys for besides Cardano. */
+export type Web3ProjectWalletChains = {
+  /** Enabled unless set to `false`. */
+  bitcoin?: boolean;
+  /** Disabled unless set to `true`, Spark keys and wallets need the Spark operators to be reachable. */
+  spark?: boolean;
 };
 
 export type Web3JWTBody = {